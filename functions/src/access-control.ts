@@ -0,0 +1,73 @@
+import * as crypto from 'crypto';
+import type { https } from 'firebase-functions';
+import { RateLimitDecision, TokenBucketRateLimiter } from './rate-limiter';
+
+// The deployed playground and `ng serve`; override with a comma-separated ALLOWED_ORIGINS
+const DEFAULT_ALLOWED_ORIGINS = ['https://khangtrannn.github.io', 'http://localhost:4200', 'http://127.0.0.1:4200'];
+
+// Header carrying one of the keys in COMPILE_API_KEYS, for tools that need more than the anonymous limit
+export const API_KEY_HEADER = 'X-Api-Key';
+
+// Anonymous clients are limited per IP: bursts of 30, then one compilation per second
+const anonymousLimiter = new TokenBucketRateLimiter({ capacity: 30, refillPerSecond: 1 });
+const apiKeyLimiter = new TokenBucketRateLimiter({ capacity: 120, refillPerSecond: 4 });
+
+// Who a compilation is rate limited as (see identifyClient)
+export interface AccessControlClient {
+  key: string;
+  hasApiKey: boolean;
+}
+
+export interface AccessControlConfig {
+  allowedOrigins: string[];
+  apiKeys: string[];
+}
+
+export function readAccessControlConfig(env: NodeJS.ProcessEnv = process.env): AccessControlConfig {
+  return {
+    allowedOrigins: parseList(env.ALLOWED_ORIGINS) ?? DEFAULT_ALLOWED_ORIGINS,
+    apiKeys: parseList(env.COMPILE_API_KEYS) ?? [],
+  };
+}
+
+/**
+ * Browsers only get CORS access from the allowed origins. Requests without an `Origin`
+ * header (scripts, the CLI, server-to-server) aren't cross-origin and are always allowed.
+ */
+export function isAllowedOrigin(origin: string | undefined, config: AccessControlConfig): boolean {
+  return origin === undefined || config.allowedOrigins.includes('*') || config.allowedOrigins.includes(origin);
+}
+
+/**
+ * Who a request is rate limited as: its API key when it sends a valid one, otherwise its IP
+ */
+export function identifyClient(
+  req: https.Request,
+  config: AccessControlConfig
+): { client?: AccessControlClient; error?: string } {
+  const apiKey = req.get(API_KEY_HEADER);
+  if (apiKey !== undefined) {
+    if (!config.apiKeys.some(key => safeEqual(key, apiKey))) {
+      return { error: 'Invalid API key' };
+    }
+    // Hashed so keys don't sit in memory next to client IPs
+    return { client: { key: `key:${crypto.createHash('sha256').update(apiKey).digest('hex')}`, hasApiKey: true } };
+  }
+  return { client: { key: `ip:${req.ip ?? 'unknown'}`, hasApiKey: false } };
+}
+
+export function takeCompileToken(client: AccessControlClient): RateLimitDecision {
+  return (client.hasApiKey ? apiKeyLimiter : anonymousLimiter).take(client.key);
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  const items = value?.split(',').map(item => item.trim()).filter(Boolean);
+  return items?.length ? items : undefined;
+}
+
+// Compare in constant time so keys can't be guessed from response timings
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
@@ -1,87 +1,30 @@
-import { NgtscProgram } from '@angular/compiler-cli';
-import type { CompilerOptions as NgcCompilerOptions } from '@angular/compiler-cli';
-import * as path from 'path';
-import * as crypto from 'crypto';
 import * as functions from 'firebase-functions';
-import * as prettier from 'prettier';
-import * as ts from 'typescript';
+import type { Response } from 'express';
+import { preWarmModuleCache } from './cache-manager';
+import { sharedCompilerOptions } from './compiler-options';
+import { CompileError, toCompileError } from './compile-errors';
+import { recordCompilation, recordFailedCompilation } from './compile-metrics';
+import { BATCH_TIMEOUT_MS, parseBatchRequest, runBatch } from './compile-batch';
+import { CompileResponse } from './compile-output';
+import { PhaseListener, runCompilation } from './compile-pipeline';
+import { buildHealthReport } from './health';
+import { DEFAULT_ANGULAR_VERSION, getAngularToolchain } from './angular-versions';
+import { CompileRequest, parseCompileRequest } from './compile-request';
 import {
-  cacheCompilation,
-  CompileResponse,
-  createOptimizedHost,
-  getCachedCompilation,
-  preWarmModuleCache,
-} from './cache-manager';
-
-// Global virtual entry file path used across the module (must be absolute for Angular)
-const VIRTUAL_FILE = path.resolve(process.cwd(), 'main.ts');
-
-const sharedCompilerOptions: ts.CompilerOptions = {
-  module: ts.ModuleKind.ES2022,
-  target: ts.ScriptTarget.ES2022,
-  moduleResolution: ts.ModuleResolutionKind.Node10,
-  skipLibCheck: true, // Skip lib checking for faster compilation but enable template checking
-  skipDefaultLibCheck: true, // Skip default lib checking
-  sourceMap: false,
-
-  // Required for Angular decorators
-  experimentalDecorators: true,
-  emitDecoratorMetadata: true,
-
-  // Helpful strictness that doesn't slow down much
-  strict: true,
-  noImplicitOverride: true,
-  noPropertyAccessFromIndexSignature: true,
-  noFallthroughCasesInSwitch: true,
-
-  // Performance optimizations
-  isolatedModules: true,
-  assumeChangesOnlyAffectDirectDependencies: true,
-  disableSourceOfProjectReferenceRedirect: true,
-
-  // Skip unnecessary checks for faster compilation
-  noResolve: false, // Keep this false for Angular imports
-  noImplicitAny: false, // Allow implicit any for faster compilation
-  noImplicitReturns: false // Skip strict return checking
-};
-
-// Angular-specific compiler options for strict template checking
-const angularCompilerOptions: Partial<NgcCompilerOptions> = {
-  // Align with angularCompilerOptions in root tsconfig.json
-  enableI18nLegacyMessageIdFormat: false,
-  strictInjectionParameters: true,
-  strictInputAccessModifiers: true,
-  typeCheckHostBindings: true,
-
-  // Strict template type checking flags
-  strictTemplates: true,
-  strictAttributeTypes: true,
-  strictNullInputTypes: true,
-  strictInputTypes: true,
-  strictSafeNavigationTypes: true,
-  strictDomLocalRefTypes: true,
-  strictOutputEventTypes: true,
-  strictDomEventTypes: true,
-  strictContextGenerics: true,
-  strictLiteralTypes: true,
-  enableBlockSyntax: true,
-  enableLetSyntax: true,
-
-  // CRITICAL: Ensure template type checker is enabled
-  enableTemplateTypeChecker: true,
-  // Report additional template issues like unknown members
-  extendedTemplateDiagnostics: true as any,
-  // Force full AOT compilation for apps (needed for template type checking)
-  compilationMode: 'full',
-  // Additional options that might be needed for template type checking
-  allowEmptyCodegenFiles: true,
-  generateDeepReexports: false,
-};
+  AccessControlClient,
+  API_KEY_HEADER,
+  identifyClient,
+  isAllowedOrigin,
+  readAccessControlConfig,
+  takeCompileToken,
+} from './access-control';
+
+const accessControl = readAccessControlConfig();
 
 // Pre-warm the module cache when the module loads (once per instance)
 (async () => {
   try {
-    await preWarmModuleCache(sharedCompilerOptions);
+    await preWarmModuleCache(getAngularToolchain(DEFAULT_ANGULAR_VERSION), sharedCompilerOptions);
   } catch (error) {
     functions.logger.warn('Pre-warming failed:', error);
   }
@@ -93,249 +36,195 @@ export const compileAngular = functions.https.onRequest({
   maxInstances: 3,
   minInstances: 0, // No always-on cost
 }, async (req, res) => {
-  res.set('Access-Control-Allow-Origin', '*');
-  res.set('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.set('Access-Control-Allow-Headers', 'Content-Type');
+  if (!applyCors(req, res, 'GET, POST, OPTIONS')) {
+    return;
+  }
 
-  if (req.method === 'OPTIONS') {
-    res.status(204).send('');
+  // GET reports the health and cache statistics of the instance that serves it
+  if (req.method === 'GET') {
+    res.set('Cache-Control', 'no-store');
+    res.status(200).json(buildHealthReport());
     return;
   }
 
-  if (req.method !== 'POST') {
-    res.status(405).json({ error: 'Method not allowed' });
+  const client = authenticate(req, res);
+
+  if (!client) {
+    return;
+  }
+
+  const rateLimit = takeCompileToken(client);
+
+  if (!rateLimit.allowed) {
+    const { retryAfterSeconds } = rateLimit;
+    res.set('Retry-After', String(retryAfterSeconds));
+    sendError(res, new CompileError('RATE_LIMITED', `Too many compilations, try again in ${retryAfterSeconds}s`, { retryAfterSeconds }));
     return;
   }
 
   const startTime = Date.now();
-  const timings: Record<string, number> = {};
 
-  try {
-    const { code: inputCode } = req.body;
-
-    if (!inputCode) {
-      res.status(400).json({ error: 'Code is required' });
-      return;
-    }
-
-    timings.setup = Date.now() - startTime;
-
-    // Generate cache key from code hash
-    const codeHash = crypto.createHash('md5').update(inputCode.trim()).digest('hex');
-    timings.hashing = Date.now() - startTime - timings.setup;
-
-    // Check cache first
-    const cachedResult = getCachedCompilation(codeHash);
-    timings.cacheCheck = Date.now() - startTime - timings.setup - timings.hashing;
-
-    if (cachedResult) {
-      res.status(200).json({
-        ...cachedResult,
-        compilationTime: Date.now() - startTime,
-        fromCache: true,
-        timings
-      });
-      return;
-    }
-
-    let compiledCode = '';
-
-    // Create thread-safe optimized host with cached module resolution
-    const host = createOptimizedHost(inputCode, VIRTUAL_FILE, sharedCompilerOptions);
-
-    // Override writeFile to capture compiled output for this specific request
-    host.writeFile = (_: string, content: string) => {
-      compiledCode = content;
-    };
-
-    // Add performance logging for host creation
-    timings.hostCreation = Date.now() - startTime - timings.setup - timings.hashing - timings.cacheCheck;
-
-    // Merge TS options with Angular compiler options for strict template checking (typed)
-    const ngCompilerOptions: ts.CompilerOptions & NgcCompilerOptions = {
-      ...sharedCompilerOptions,
-      ...angularCompilerOptions,
-    } as ts.CompilerOptions & NgcCompilerOptions;
-
-    // Create NgProgram with optimized host (module resolution is cached internally)
-    const ngProgram = new NgtscProgram([VIRTUAL_FILE], ngCompilerOptions, host);
-    timings.programCreation = Date.now() - startTime - timings.hostCreation - timings.cacheCheck - timings.hashing - timings.setup;
-
-    // CRITICAL: Force template type checking by analyzing the program
-    // This ensures Template Type Check blocks (TCBs) are generated
-    await ngProgram.compiler.analyzeAsync();
-
-    // Force template diagnostics generation by accessing template type checker
-    const compiler = ngProgram.compiler as any;
-    if (compiler.ensureAllShimsForAllFiles) {
-      compiler.ensureAllShimsForAllFiles();
-    }
-    timings.analysis = Date.now() - startTime - timings.programCreation - timings.hostCreation - timings.cacheCheck - timings.hashing - timings.setup;
-
-    // Gather all diagnostics including Angular template type-checking
-    const tsProgram = ngProgram.getTsProgram();
-    const sourceFile = tsProgram.getSourceFile(VIRTUAL_FILE);
-    const syntacticDiagnostics = tsProgram.getSyntacticDiagnostics();
-    const semanticDiagnostics = tsProgram.getSemanticDiagnostics();
-    const optionsDiagnostics = tsProgram.getOptionsDiagnostics();
-    const ngStructuralDiagnostics = ngProgram.getNgStructuralDiagnostics?.() ?? [];
-    const ngSemanticDiagnostics = sourceFile && typeof ngProgram.getNgSemanticDiagnostics === 'function'
-      ? (ngProgram.getNgSemanticDiagnostics(sourceFile.fileName) as ts.Diagnostic[])
-      : (ngProgram.getNgSemanticDiagnostics?.() as ts.Diagnostic[] | undefined) ?? [];
-
-    const allDiagnostics: ts.Diagnostic[] = [
-      ...syntacticDiagnostics,
-      ...semanticDiagnostics,
-      ...optionsDiagnostics,
-      ...ngStructuralDiagnostics,
-      ...ngSemanticDiagnostics,
-    ];
-
-    if (allDiagnostics.length > 0) {
-      const diagnosticText = allDiagnostics
-        .map((d: ts.Diagnostic) => {
-          const fileName = d.file?.fileName || 'main.ts';
-          const { line, character } =
-            d.file && d.start !== undefined
-              ? d.file.getLineAndCharacterOfPosition(d.start)
-              : { line: 0, character: 0 };
-
-          const category = ts.DiagnosticCategory[d.category] || 'Error';
-          const message = ts.flattenDiagnosticMessageText(d.messageText, '\n');
-
-          return `${formatDiagnosticFilePath(fileName)}(${line + 1},${character + 1}): ${category} TS${d.code}: ${message}`;
-        })
-        .join('\n');
-
-      const compilationTime = Date.now() - startTime;
-      const errorResult: CompileResponse = {
-        compiledOutput: diagnosticText,
-        hasDiagnostics: true,
-        compilationTime,
-        fromCache: false,
-        timings
-      };
-
-      cacheCompilation(codeHash, {
-        compiledOutput: diagnosticText,
-        hasDiagnostics: true
-      });
-
-      res.status(200).json(errorResult);
-      return;
-    }
-
-    const { diagnostics: emitDiagnostics } = ngProgram.emit();
-    timings.emission = Date.now() - startTime - timings.analysis - timings.programCreation - timings.hostCreation - timings.cacheCheck - timings.hashing - timings.setup;
-
-    if (emitDiagnostics && emitDiagnostics.length > 0) {
-      const diagnosticText = emitDiagnostics
-        .map((d: ts.Diagnostic) => {
-          const fileName = d.file?.fileName || 'main.ts';
-          const { line, character } =
-            d.file && d.start !== undefined
-              ? d.file.getLineAndCharacterOfPosition(d.start)
-              : { line: 0, character: 0 };
-
-          return `${formatDiagnosticFilePath(fileName)}(${line + 1},${character + 1}): ${ts.DiagnosticCategory[d.category]
-            } TS${d.code}: ${ts.flattenDiagnosticMessageText(
-              d.messageText,
-              '\n'
-            )}`;
-        })
-        .join('\n');
-
-      const compilationTime = Date.now() - startTime;
-      const emitErrorResult: CompileResponse = {
-        compiledOutput: diagnosticText,
-        hasDiagnostics: true,
-        compilationTime,
-        fromCache: false,
-        timings
-      };
-
-      cacheCompilation(codeHash, {
-        compiledOutput: diagnosticText,
-        hasDiagnostics: true
-      });
-
-      res.status(200).json(emitErrorResult);
-      return;
-    }
-
-    // Parallel processing: clean code and format simultaneously
-    const cleanedCode = removeNgDevModeBlocks(compiledCode);
-
-    // Use cached prettier options for better performance
-    const prettierOptions = {
-      parser: 'typescript' as const,
-      semi: true,
-      singleQuote: true,
-      trailingComma: 'es5' as const,
-      tabWidth: 2,
-      useTabs: false,
-      printWidth: 80,
-      bracketSpacing: true,
-      arrowParens: 'avoid' as const,
-      endOfLine: 'lf' as const,
-    };
-
-    const formattedCode = await prettier.format(cleanedCode, prettierOptions);
-    timings.formatting = Date.now() - startTime - timings.emission - timings.analysis - timings.programCreation - timings.hostCreation - timings.cacheCheck - timings.hashing - timings.setup;
-
-    const compilationTime = Date.now() - startTime;
-    const result: CompileResponse = {
-      compiledOutput: formattedCode,
-      hasDiagnostics: false,
-      compilationTime,
-      fromCache: false,
-      timings
-    };
-
-    // Cache the successful result
-    cacheCompilation(codeHash, {
-      compiledOutput: formattedCode,
-      hasDiagnostics: false
-    });
+  const { request, error: requestError } = parseCompileRequest(req.body);
 
-    res.status(200).json(result);
+  if (!request) {
+    sendError(res, requestError!);
+    return;
+  }
+
+  if (wantsEventStream(req)) {
+    await streamCompilation(request, res, startTime);
+    return;
+  }
+
+  try {
+    res.status(200).json(await compileAndRecord(request, { startTime }));
   } catch (err) {
-    res.status(500).json({
-      error: 'Internal server error',
-      message: err instanceof Error ? err.message : 'Unknown error',
-    });
+    sendError(res, toCompileError(err));
   }
 });
 
-function removeNgDevModeBlocks(code: string): string {
-  // Remove both ɵsetClassMetadata and ɵsetClassDebugInfo blocks
-  return code.replace(
-    /\(\(\) => \{ \(typeof ngDevMode === "undefined" \|\| ngDevMode\) && i\d+\.ɵsetClass(?:Metadata|DebugInfo)\([^;]+\); \}\)\(\);?\s*/g,
-    ''
-  );
+/**
+ * Compiles many snippets in one request, e.g. to regenerate the output of a docs site. Answers
+ * with the result or error of each snippet by ID; one bad snippet doesn't fail the batch.
+ */
+export const compileAngularBatch = functions.https.onRequest({
+  memory: "2GiB",
+  timeoutSeconds: BATCH_TIMEOUT_MS / 1000 + 30,
+  // A single instance keeps every batch on the same warm module and compilation caches
+  maxInstances: 1,
+  minInstances: 0,
+}, async (req, res) => {
+  if (!applyCors(req, res, 'POST, OPTIONS')) {
+    return;
+  }
+
+  const client = authenticate(req, res);
+
+  if (!client) {
+    return;
+  }
+
+  const startTime = Date.now();
+
+  const { batch, error: batchError } = parseBatchRequest(req.body);
+
+  if (!batch) {
+    sendError(res, batchError!);
+    return;
+  }
+
+  const response = await runBatch(batch, {
+    // Failed snippets are counted in the metrics too, then reported in the batch response
+    compile: request => compileAndRecord(request, { startTime: Date.now() }),
+    takeToken: () => takeCompileToken(client),
+  }, startTime);
+  res.status(200).json(response);
+});
+
+/**
+ * Set the CORS headers and answer preflights and requests from origins that aren't allowed.
+ * Returns whether the request still needs an answer.
+ */
+function applyCors(req: functions.https.Request, res: Response, methods: string): boolean {
+  const origin = req.get('Origin');
+  const allowedOrigin = isAllowedOrigin(origin, accessControl);
+  res.set('Vary', 'Origin');
+  if (origin && allowedOrigin) {
+    res.set('Access-Control-Allow-Origin', origin);
+  }
+  res.set('Access-Control-Allow-Methods', methods);
+  res.set('Access-Control-Allow-Headers', `Content-Type, ${API_KEY_HEADER}`);
+  res.set('Access-Control-Expose-Headers', 'Retry-After');
+
+  if (!allowedOrigin) {
+    sendError(res, new CompileError('ACCESS_DENIED', 'Origin not allowed'));
+    return false;
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.status(204).send('');
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Only POST requests compile; they're rate limited as the client this returns, which is
+ * undefined (and the request answered) for other methods and invalid API keys
+ */
+function authenticate(req: functions.https.Request, res: Response): AccessControlClient | undefined {
+  if (req.method !== 'POST') {
+    sendError(res, new CompileError('INVALID_INPUT', 'Method not allowed', { status: 405 }));
+    return undefined;
+  }
+
+  const { client, error: clientError } = identifyClient(req, accessControl);
+
+  if (!client) {
+    sendError(res, new CompileError('ACCESS_DENIED', clientError!, { status: 401 }));
+  }
+
+  return client;
 }
 
-// Shorten diagnostic file paths for readability, e.g., show "/main.ts" instead of full absolute path
-function formatDiagnosticFilePath(fileName: string): string {
+// Run the pipeline and count the outcome in this instance's metrics
+async function compileAndRecord(
+  request: CompileRequest,
+  options: { startTime: number; onPhase?: PhaseListener }
+): Promise<CompileResponse> {
   try {
-    const norm = fileName.replace(/\\/g, '/');
-    const vNorm = VIRTUAL_FILE.replace(/\\/g, '/');
-
-    // Always render the virtual entry file as /main.ts
-    if (path.resolve(norm) === path.resolve(vNorm) || norm.endsWith('/main.ts') || norm === 'main.ts') {
-      return '/main.ts';
-    }
-
-    const cwd = process.cwd().replace(/\\/g, '/');
-    if (norm.startsWith(cwd)) {
-      const rel = norm.slice(cwd.length);
-      return rel.startsWith('/') ? rel : `/${rel}`;
-    }
-
-    // Fallback to just the basename with a leading slash
-    return `/${path.basename(norm)}`;
-  } catch {
-    // On any unexpected error, fall back to a short name
-    return `/${path.basename(fileName)}`;
+    const result = await runCompilation(request, options);
+    recordCompilation(result);
+    return result;
+  } catch (err) {
+    const error = toCompileError(err);
+    recordFailedCompilation(Date.now() - options.startTime, error.code);
+    throw error;
   }
-}
\ No newline at end of file
+}
+
+function sendError(res: Response, error: CompileError): void {
+  if (error.code === 'COMPILER_CRASH') {
+    functions.logger.error('Compiler crashed:', error.message);
+  }
+  res.status(error.status).json(error.toResponseBody());
+}
+
+/**
+ * Clients opt into progress events with `Accept: text/event-stream` or `?stream=1`
+ */
+function wantsEventStream(req: functions.https.Request): boolean {
+  return req.query.stream === '1' || (req.headers.accept ?? '').includes('text/event-stream');
+}
+
+/**
+ * Send a `phase` Server-Sent Event as each compiler phase finishes, then a single `result`
+ * (the usual CompileResponse) or `error` event
+ */
+async function streamCompilation(request: CompileRequest, res: Response, startTime: number): Promise<void> {
+  res.status(200);
+  res.set('Content-Type', 'text/event-stream');
+  res.set('Cache-Control', 'no-cache');
+  res.flushHeaders();
+
+  const sendEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    const result = await compileAndRecord(request, {
+      startTime,
+      onPhase: async phaseEvent => {
+        sendEvent('phase', phaseEvent);
+        // Yield so the event is flushed before the next (synchronous) compiler phase starts
+        await new Promise(resolve => setImmediate(resolve));
+      },
+    });
+    sendEvent('result', result);
+  } catch (err) {
+    sendEvent('error', toCompileError(err).toResponseBody());
+  } finally {
+    res.end();
+  }
+}
@@ -0,0 +1,106 @@
+import * as ngc from '@angular/compiler-cli';
+import * as fs from 'fs';
+import { createRequire } from 'module';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+// Compiler and TypeScript of one Angular version, plus where its typings live
+export interface AngularToolchain {
+  // Major version clients ask for, e.g. "19"
+  version: string;
+  packageVersions: { angular: string; compilerCli: string; typescript: string };
+  ngc: typeof ngc;
+  // Each Angular version needs the TypeScript it supports; hosts and programs must all use this one
+  ts: typeof ts;
+  // Projects are compiled as if they lived in this directory, so `@angular/*` imports resolve to its node_modules
+  root: string;
+}
+
+export interface AngularVersionInfo {
+  version: string;
+  installed: boolean;
+  // Exact package versions, once the toolchain has been loaded
+  packageVersions?: AngularToolchain['packageVersions'];
+}
+
+// The version in functions/package.json, compiled with the bundled compiler
+export const DEFAULT_ANGULAR_VERSION = '20';
+
+// Other versions are installed into angular-versions/v<major> by `npm run install:angular-versions`
+export const ANGULAR_VERSIONS = ['17', '18', '19', DEFAULT_ANGULAR_VERSION];
+const ANGULAR_VERSIONS_DIR = path.join(__dirname, '..', 'angular-versions');
+
+const defaultToolchain: AngularToolchain = {
+  version: DEFAULT_ANGULAR_VERSION,
+  packageVersions: {
+    angular: require('@angular/core/package.json').version,
+    compilerCli: ngc.VERSION.full,
+    typescript: ts.version,
+  },
+  ngc,
+  ts,
+  // The functions directory (lib/.. once built), wherever the process was started from
+  root: path.join(__dirname, '..'),
+};
+
+// Loaded on first use: each version keeps its own compiler and TypeScript in memory
+const toolchains = new Map<string, AngularToolchain>([[DEFAULT_ANGULAR_VERSION, defaultToolchain]]);
+
+const versionDirectory = (version: string) => path.join(ANGULAR_VERSIONS_DIR, `v${version}`);
+
+export function isAngularVersionInstalled(version: string): boolean {
+  return (
+    version === DEFAULT_ANGULAR_VERSION ||
+    fs.existsSync(path.join(versionDirectory(version), 'node_modules', '@angular', 'compiler-cli'))
+  );
+}
+
+/**
+ * Check a requested `angularVersion`; omitted means the default version
+ */
+export function parseAngularVersion(value: unknown): { version?: string; error?: string } {
+  if (value === undefined) {
+    return { version: DEFAULT_ANGULAR_VERSION };
+  }
+  if (typeof value !== 'string' || !ANGULAR_VERSIONS.includes(value)) {
+    return { error: `Unsupported Angular version: expected one of ${ANGULAR_VERSIONS.join(', ')}` };
+  }
+  if (!isAngularVersionInstalled(value)) {
+    return { error: `Angular ${value} is not installed on this server` };
+  }
+  return { version: value };
+}
+
+export function getAngularToolchain(version: string): AngularToolchain {
+  const loaded = toolchains.get(version);
+  if (loaded) {
+    return loaded;
+  }
+
+  const root = versionDirectory(version);
+  // Resolve from the version's directory so the compiler's own imports (@angular/compiler, typescript) match it
+  const requireFromVersion = createRequire(path.join(root, 'package.json'));
+  const versionNgc: typeof ngc = requireFromVersion('@angular/compiler-cli');
+  const versionTs: typeof ts = requireFromVersion('typescript');
+  const toolchain: AngularToolchain = {
+    version,
+    packageVersions: {
+      angular: requireFromVersion('@angular/core/package.json').version,
+      compilerCli: versionNgc.VERSION.full,
+      typescript: versionTs.version,
+    },
+    ngc: versionNgc,
+    ts: versionTs,
+    root,
+  };
+  toolchains.set(version, toolchain);
+  return toolchain;
+}
+
+export function listAngularVersions(): AngularVersionInfo[] {
+  return ANGULAR_VERSIONS.map(version => ({
+    version,
+    installed: isAngularVersionInstalled(version),
+    packageVersions: toolchains.get(version)?.packageVersions,
+  }));
+}
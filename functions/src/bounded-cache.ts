@@ -0,0 +1,153 @@
+export interface BoundedCacheOptions<K, V> {
+  // Limits; the least recently used entries are evicted once either is exceeded
+  maxEntries?: number;
+  maxBytes?: number;
+  // Entries not written for this long are dropped when next looked up or during eviction
+  ttlMs?: number;
+  // Approximate size of an entry in bytes; required for maxBytes to mean anything
+  sizeOf?: (value: V, key: K) => number;
+}
+
+export interface BoundedCacheStats {
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  // Entries dropped to stay within the limits, and entries dropped because their TTL passed
+  evictions: number;
+  expirations: number;
+}
+
+interface Entry<V> {
+  value: V;
+  bytes: number;
+  storedAt: number;
+}
+
+// Strings are UTF-16 in V8, so count two bytes per character
+export const stringByteSize = (value: string): number => value.length * 2;
+
+/**
+ * Map with least recently used eviction, optional TTL and an entry/byte budget. Lookups refresh
+ * an entry's position; the Map's insertion order is the LRU order.
+ */
+export class BoundedCache<K, V> {
+  readonly #entries = new Map<K, Entry<V>>();
+  readonly #options: BoundedCacheOptions<K, V>;
+  #bytes = 0;
+  #hits = 0;
+  #misses = 0;
+  #evictions = 0;
+  #expirations = 0;
+
+  constructor(options: BoundedCacheOptions<K, V> = {}) {
+    this.#options = options;
+  }
+
+  get size(): number {
+    return this.#entries.size;
+  }
+
+  get(key: K): V | undefined {
+    const entry = this.#entries.get(key);
+    if (!entry || this.#isExpired(entry, Date.now())) {
+      if (entry) {
+        this.#remove(key, entry);
+        this.#expirations++;
+      }
+      this.#misses++;
+      return undefined;
+    }
+
+    this.#entries.delete(key);
+    this.#entries.set(key, entry);
+    this.#hits++;
+    return entry.value;
+  }
+
+  has(key: K): boolean {
+    const entry = this.#entries.get(key);
+    return entry !== undefined && !this.#isExpired(entry, Date.now());
+  }
+
+  set(key: K, value: V): void {
+    const existing = this.#entries.get(key);
+    if (existing) {
+      this.#remove(key, existing);
+    }
+
+    const bytes = this.#options.sizeOf?.(value, key) ?? 0;
+    // An entry that alone exceeds the budget would evict everything else and then itself
+    if (this.#options.maxBytes !== undefined && bytes > this.#options.maxBytes) {
+      this.#evictions++;
+      return;
+    }
+
+    this.#entries.set(key, { value, bytes, storedAt: Date.now() });
+    this.#bytes += bytes;
+    this.#evict();
+  }
+
+  delete(key: K): boolean {
+    const entry = this.#entries.get(key);
+    if (entry) {
+      this.#remove(key, entry);
+    }
+    return entry !== undefined;
+  }
+
+  /**
+   * Drop the least recently used entry, e.g. under memory pressure the limits don't capture
+   */
+  evictLeastRecentlyUsed(): boolean {
+    const oldest = this.#entries.entries().next();
+    if (oldest.done) {
+      return false;
+    }
+    this.#remove(...oldest.value);
+    this.#evictions++;
+    return true;
+  }
+
+  clear(): void {
+    this.#entries.clear();
+    this.#bytes = 0;
+  }
+
+  stats(): BoundedCacheStats {
+    return {
+      entries: this.#entries.size,
+      bytes: this.#bytes,
+      hits: this.#hits,
+      misses: this.#misses,
+      evictions: this.#evictions,
+      expirations: this.#expirations,
+    };
+  }
+
+  #isExpired(entry: Entry<V>, now: number): boolean {
+    return this.#options.ttlMs !== undefined && now - entry.storedAt > this.#options.ttlMs;
+  }
+
+  #remove(key: K, entry: Entry<V>): void {
+    this.#entries.delete(key);
+    this.#bytes -= entry.bytes;
+  }
+
+  #evict(): void {
+    if (this.#options.ttlMs !== undefined) {
+      const now = Date.now();
+      for (const [key, entry] of this.#entries) {
+        if (this.#isExpired(entry, now)) {
+          this.#remove(key, entry);
+          this.#expirations++;
+        }
+      }
+    }
+
+    const { maxEntries = Infinity, maxBytes = Infinity } = this.#options;
+    while (this.#entries.size > maxEntries || this.#bytes > maxBytes) {
+      this.evictLeastRecentlyUsed();
+    }
+  }
+}
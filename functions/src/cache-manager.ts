@@ -1,5 +1,13 @@
 import * as ts from 'typescript';
 import * as functions from 'firebase-functions';
+import * as sass from 'sass';
+import { pathToFileURL, fileURLToPath } from 'url';
+import type { CompilerHost as NgCompilerHost, NgtscProgram } from '@angular/compiler-cli';
+import type { CacheLayer, CompileResponse } from './compile-output';
+import { createMemoryCompilationCache, createPersistentCompilationCache } from './compilation-cache';
+import { BoundedCache, stringByteSize } from './bounded-cache';
+import { AngularToolchain, DEFAULT_ANGULAR_VERSION } from './angular-versions';
+import { CompileError } from './compile-errors';
 
 // Enhanced module resolution cache with performance tracking
 export interface EnhancedModuleCache {
@@ -8,16 +16,19 @@ export interface EnhancedModuleCache {
   timestamp: number;
 }
 
-export interface CompileResponse {
-  compiledOutput: string;
-  hasDiagnostics: boolean;
-  compilationTime?: number;
-  fromCache?: boolean;
-  timings?: Record<string, number>;
-}
+// Resource transform hook types of the Angular compiler host
+type ResourceHostContext = Parameters<NonNullable<NgCompilerHost['transformResource']>>[1];
+type TransformResourceResult = Awaited<ReturnType<NonNullable<NgCompilerHost['transformResource']>>>;
+
+// Virtual project files (sources, templates and stylesheets) keyed by absolute path
+export type VirtualFiles = Record<string, string>;
 
 // Cache configuration
 export const MAX_CACHE_SIZE = 1000;
+export const MAX_COMPILATION_CACHE_BYTES = 128 * 1024 * 1024;
+// Per Angular version: whole .d.ts files of @angular/*, rxjs and the TypeScript libs; a few MB per package
+export const MAX_FILE_CACHE_BYTES = 128 * 1024 * 1024;
+export const MAX_MODULE_CACHE_ENTRIES = 5000;
 
 // Common Angular modules to pre-cache (prioritized by usage frequency)
 export const COMMON_ANGULAR_MODULES = [
@@ -32,21 +43,69 @@ export const COMMON_ANGULAR_MODULES = [
   'tslib', // TypeScript runtime helpers
 ];
 
+// Module resolutions and node_modules contents differ per Angular version, so each version has its own
+interface VersionCaches {
+  enhancedModuleCache: BoundedCache<string, EnhancedModuleCache>;
+  modulePathCache: BoundedCache<string, string>;
+  fileContentCache: BoundedCache<string, string>;
+}
+
 // Cache instances
-const enhancedModuleCache = new Map<string, EnhancedModuleCache>();
-const modulePathCache = new Map<string, string>();
-const fileContentCache = new Map<string, string>();
-const compilationCache = new Map<string, CompileResponse>();
-
-// TypeScript Program cache for reusing expensive compiler setup
-export interface CachedTsProgram {
-  program: ts.Program;
-  host: ts.CompilerHost;
-  options: ts.CompilerOptions;
-  lastUsed: number;
+const versionCaches = new Map<string, VersionCaches>();
+const compilationCache = new BoundedCache<string, CompileResponse>({
+  maxEntries: MAX_CACHE_SIZE,
+  maxBytes: MAX_COMPILATION_CACHE_BYTES,
+  sizeOf: result => stringByteSize(JSON.stringify(result)),
+});
+// Checked in order; the persistent layer (if configured) is shared between instances and cold starts
+const compilationCacheLayers = [createMemoryCompilationCache(compilationCache), createPersistentCompilationCache()].filter(
+  layer => layer !== undefined
+);
+
+// Bump when the shape of cached results changes, so persistent caches don't serve the old shape
+const COMPILATION_CACHE_FORMAT = 2;
+
+export interface CachedCompilation {
+  result: CompileResponse;
+  // Layer that served the hit
+  layer: CacheLayer;
+}
+
+// Last program compiled for an editor session, passed as `oldProgram` to its next compilation
+export interface CachedSessionProgram {
+  program: NgtscProgram;
+  // Serialized compiler options the program was created with; other options need a cold program
+  optionsKey: string;
+  // Emitted JavaScript and source maps by project path; incremental emits only write changed files
+  compiledFiles: Record<string, string>;
+  compiledSourceMaps: Record<string, string>;
+  // Project files the program was compiled from, to tell Angular which templates and styles changed
+  virtualFiles: VirtualFiles;
 }
 
-const tsProgramCache = new Map<string, CachedTsProgram>();
+// Session programs hold whole type-checked programs, so only a few are kept per instance
+export const MAX_SESSION_PROGRAMS = 8;
+export const SESSION_PROGRAM_TTL_MS = 10 * 60 * 1000;
+// Above this heap size the least recently used session program is dropped on every store
+export const MAX_SESSION_PROGRAM_HEAP_BYTES = 1024 * 1024 * 1024;
+
+const sessionProgramCache = new BoundedCache<string, CachedSessionProgram>({
+  maxEntries: MAX_SESSION_PROGRAMS,
+  ttlMs: SESSION_PROGRAM_TTL_MS,
+});
+
+const getVersionCaches = (version: string): VersionCaches => {
+  let caches = versionCaches.get(version);
+  if (!caches) {
+    caches = {
+      enhancedModuleCache: new BoundedCache({ maxEntries: MAX_MODULE_CACHE_ENTRIES }),
+      modulePathCache: new BoundedCache({ maxEntries: MAX_MODULE_CACHE_ENTRIES }),
+      fileContentCache: new BoundedCache({ maxBytes: MAX_FILE_CACHE_BYTES, sizeOf: stringByteSize }),
+    };
+    versionCaches.set(version, caches);
+  }
+  return caches;
+};
 
 /**
  * Optimize cache key generation for better performance
@@ -61,9 +120,9 @@ export const createCacheKey = (moduleName: string, containingFile: string): stri
 /**
  * Get module from enhanced cache (thread-safe)
  */
-export const getEnhancedCachedModule = (cacheKey: string): EnhancedModuleCache | undefined => {
+export const getEnhancedCachedModule = (version: string, cacheKey: string): EnhancedModuleCache | undefined => {
   try {
-    return enhancedModuleCache.get(cacheKey);
+    return getVersionCaches(version).enhancedModuleCache.get(cacheKey);
   } catch (error) {
     // Return undefined if cache access fails
     return undefined;
@@ -73,8 +132,8 @@ export const getEnhancedCachedModule = (cacheKey: string): EnhancedModuleCache |
 /**
  * Get module from legacy cache
  */
-export const getLegacyCachedModule = (cacheKey: string): string | undefined => {
-  return modulePathCache.get(cacheKey);
+export const getLegacyCachedModule = (version: string, cacheKey: string): string | undefined => {
+  return getVersionCaches(version).modulePathCache.get(cacheKey);
 };
 
 // Track modules currently being resolved to prevent duplicate work
@@ -84,9 +143,11 @@ const resolvingModules = new Set<string>();
  * Cache a resolved module in both enhanced and legacy caches (thread-safe)
  */
 export const cacheResolvedModule = (
+  version: string,
   cacheKey: string, 
   resolvedModule: ts.ResolvedModule
 ): void => {
+  const { enhancedModuleCache, modulePathCache } = getVersionCaches(version);
   try {
     // Atomic cache update - create entry first, then set
     const enhancedEntry = {
@@ -120,141 +181,200 @@ const markModuleAsResolving = (cacheKey: string): boolean => {
 /**
  * Migrate legacy cache entry to enhanced cache
  */
-export const migrateLegacyToEnhanced = (cacheKey: string, legacyPath: string): void => {
+export const migrateLegacyToEnhanced = (version: string, cacheKey: string, legacyPath: string): void => {
   const enhancedEntry: EnhancedModuleCache = {
     resolvedFileName: legacyPath,
     isExternalLibraryImport: true,
     timestamp: Date.now()
   };
-  enhancedModuleCache.set(cacheKey, enhancedEntry);
+  getVersionCaches(version).enhancedModuleCache.set(cacheKey, enhancedEntry);
 };
 
 /**
  * Get file content from cache
  */
-export const getCachedFileContent = (fileName: string): string | undefined => {
-  return fileContentCache.get(fileName);
+export const getCachedFileContent = (version: string, fileName: string): string | undefined => {
+  return getVersionCaches(version).fileContentCache.get(fileName);
 };
 
 /**
  * Cache file content (thread-safe)
  */
-export const cacheFileContent = (fileName: string, content: string): void => {
+export const cacheFileContent = (version: string, fileName: string, content: string): void => {
   if (fileName.includes('node_modules') && content && content.length > 0) {
     // Only cache non-empty node_modules files since they don't change
     // Use defensive check to avoid caching undefined/empty content
     try {
-      fileContentCache.set(fileName, content);
+      getVersionCaches(version).fileContentCache.set(fileName, content);
     } catch (error) {
       // Silently ignore cache errors to prevent breaking compilation
     }
   }
 };
 
+// Outputs depend on the compiler too, so results of other Angular/TypeScript versions never match
+const toCompilationCacheKey = (codeHash: string, { packageVersions }: AngularToolchain): string =>
+  [
+    codeHash,
+    `v${COMPILATION_CACHE_FORMAT}`,
+    `cli${packageVersions.compilerCli}`,
+    `ng${packageVersions.angular}`,
+    `ts${packageVersions.typescript}`,
+  ].join('-');
+
 /**
- * Get compilation result from cache (thread-safe)
+ * Get compilation result from the first cache layer that has it, copying it into the faster layers
  */
-export const getCachedCompilation = (codeHash: string): CompileResponse | undefined => {
-  try {
-    return compilationCache.get(codeHash);
-  } catch (error) {
-    // Return undefined if cache access fails
-    return undefined;
+export const getCachedCompilation = async (
+  codeHash: string,
+  toolchain: AngularToolchain
+): Promise<CachedCompilation | undefined> => {
+  const key = toCompilationCacheKey(codeHash, toolchain);
+  for (const [index, layer] of compilationCacheLayers.entries()) {
+    const result = await layer.get(key);
+    if (result) {
+      await Promise.all(compilationCacheLayers.slice(0, index).map(faster => faster.set(key, result)));
+      return { result, layer: layer.layer };
+    }
   }
+  return undefined;
 };
 
-// Synchronization flag for cache cleanup
-let isCleaningCompilationCache = false;
+/**
+ * Cache compilation result in every layer
+ */
+export const cacheCompilation = async (
+  codeHash: string,
+  toolchain: AngularToolchain,
+  result: CompileResponse
+): Promise<void> => {
+  const key = toCompilationCacheKey(codeHash, toolchain);
+  await Promise.all(compilationCacheLayers.map(layer => layer.set(key, result)));
+};
 
 /**
- * Cache compilation result with thread-safe cleanup
+ * Take a session's previous program out of the cache, so concurrent requests of the same
+ * session never build on the same program
  */
-export const cacheCompilation = (codeHash: string, result: CompileResponse): void => {
-  // Thread-safe cache cleanup
-  if (compilationCache.size >= MAX_CACHE_SIZE && !isCleaningCompilationCache) {
-    isCleaningCompilationCache = true;
-    try {
-      // Remove oldest entries (up to 10% of cache size)
-      const entriesToRemove = Math.floor(MAX_CACHE_SIZE * 0.1);
-      const iterator = compilationCache.keys();
-      for (let i = 0; i < entriesToRemove; i++) {
-        const nextKey = iterator.next().value;
-        if (nextKey) {
-          compilationCache.delete(nextKey);
-        } else {
-          break;
-        }
-      }
-    } finally {
-      isCleaningCompilationCache = false;
-    }
+export const takeSessionProgram = (sessionId: string, optionsKey: string): CachedSessionProgram | undefined => {
+  const cached = sessionProgramCache.get(sessionId);
+  sessionProgramCache.delete(sessionId);
+  return cached?.optionsKey === optionsKey ? cached : undefined;
+};
+
+// For sessions that are over, e.g. once a batch has been compiled
+export const dropSessionProgram = (sessionId: string): void => {
+  sessionProgramCache.delete(sessionId);
+};
+
+/**
+ * Keep a session's latest program, evicting expired and least recently used sessions
+ */
+export const cacheSessionProgram = (sessionId: string, entry: CachedSessionProgram): void => {
+  sessionProgramCache.delete(sessionId);
+
+  // Freed programs are only collected later, so drop one per store while the heap is too large
+  if (process.memoryUsage().heapUsed > MAX_SESSION_PROGRAM_HEAP_BYTES) {
+    sessionProgramCache.evictLeastRecentlyUsed();
   }
-  
-  compilationCache.set(codeHash, result);
+
+  sessionProgramCache.set(sessionId, entry);
 };
 
+// Outcome of this instance's pre-warming (of the default Angular version), reported by the health endpoint
+export interface PreWarmStatus {
+  state: 'pending' | 'done';
+  // Modules resolved by pre-warming, and modules TypeScript couldn't resolve or that threw
+  warmedModules: string[];
+  failedModules: string[];
+  durationMs?: number;
+}
+
+const preWarmStatus: PreWarmStatus = { state: 'pending', warmedModules: [], failedModules: [] };
+
+export const getPreWarmStatus = (): PreWarmStatus => ({ ...preWarmStatus });
+
 /**
  * Pre-warm module cache with commonly used Angular modules
  */
-export const preWarmModuleCache = async (sharedCompilerOptions: ts.CompilerOptions): Promise<void> => {
+export const preWarmModuleCache = async (
+  toolchain: AngularToolchain,
+  sharedCompilerOptions: ts.CompilerOptions
+): Promise<void> => {
+  const { version, root } = toolchain;
   const startTime = Date.now();
-  let preWarmedCount = 0;
   
   for (const moduleName of COMMON_ANGULAR_MODULES) {
     try {
       const cacheKey = createCacheKey(moduleName, '/main.ts');
       
       // Skip if already cached
-      if (enhancedModuleCache.has(cacheKey)) continue;
+      if (getVersionCaches(version).enhancedModuleCache.has(cacheKey)) continue;
       
-      const result = ts.resolveModuleName(
+      // Resolve from the project root like project files do; node_modules isn't found from `/`
+      const result = toolchain.ts.resolveModuleName(
         moduleName,
-        '/main.ts',
+        require('path').join(root, 'main.ts'),
         sharedCompilerOptions,
-        ts.sys
+        toolchain.ts.sys
       );
       
       if (result.resolvedModule) {
-        cacheResolvedModule(cacheKey, result.resolvedModule);
-        preWarmedCount++;
+        cacheResolvedModule(version, cacheKey, result.resolvedModule);
+        preWarmStatus.warmedModules.push(moduleName);
+      } else {
+        preWarmStatus.failedModules.push(moduleName);
       }
     } catch (error) {
       // Silently continue on pre-warming errors
       functions.logger.debug(`Pre-warming failed for ${moduleName}:`, error);
+      preWarmStatus.failedModules.push(moduleName);
     }
   }
   
   const warmupTime = Date.now() - startTime;
-  functions.logger.info(`📊 Pre-warmed ${preWarmedCount} modules in ${warmupTime}ms`);
+  preWarmStatus.state = 'done';
+  preWarmStatus.durationMs = warmupTime;
+  functions.logger.info(`📊 Pre-warmed ${preWarmStatus.warmedModules.length} modules in ${warmupTime}ms`);
 };
 
 const matchesTypeScriptLibFilePattern = (fileName: string): boolean => {
   return fileName.startsWith('lib.') && fileName.endsWith('.d.ts');
 };
 
-const buildTypeScriptLibFilePath = (fileName: string): string => {
+const buildTypeScriptLibFilePath = (fileName: string, libDirectory: string): string => {
   const path = require('path');
-  return path.join(__dirname, '..', 'node_modules', 'typescript', 'lib', fileName);
+  return path.join(libDirectory, fileName);
 };
 
-const matchesVirtualFileNameOrPath = (fileName: string, virtualFile: string, virtualAbsPath: string): boolean => {
+/**
+ * Look up a virtual project file by name or absolute path
+ */
+const findVirtualFileContent = (fileName: string, virtualFiles: VirtualFiles): string | undefined => {
   const fileAbsPath = require('path').resolve(fileName);
-  return fileName === virtualFile || fileAbsPath === virtualAbsPath;
+  return Object.prototype.hasOwnProperty.call(virtualFiles, fileAbsPath) ? virtualFiles[fileAbsPath] : undefined;
+};
+
+const isVirtualDirectory = (directoryName: string, virtualFiles: VirtualFiles): boolean => {
+  const path = require('path');
+  const dirAbsPath = path.resolve(directoryName);
+  const prefix = dirAbsPath.endsWith(path.sep) ? dirAbsPath : dirAbsPath + path.sep;
+  return Object.keys(virtualFiles).some(fileName => fileName.startsWith(prefix));
 };
 
 const buildOptimizedFileExistsChecker = (
-  virtualFile: string, 
-  virtualAbsPath: string, 
+  virtualFiles: VirtualFiles,
+  libDirectory: string,
   baseFileExists: ts.CompilerHost['fileExists']
 ) => {
   return (fileName: string): boolean => {
-    if (matchesVirtualFileNameOrPath(fileName, virtualFile, virtualAbsPath)) {
+    if (findVirtualFileContent(fileName, virtualFiles) !== undefined) {
       return true;
     }
     
     if (matchesTypeScriptLibFilePattern(fileName)) {
       const fs = require('fs');
-      const libPath = buildTypeScriptLibFilePath(fileName);
+      const libPath = buildTypeScriptLibFilePath(fileName, libDirectory);
       return fs.existsSync(libPath);
     }
     
@@ -262,42 +382,53 @@ const buildOptimizedFileExistsChecker = (
   };
 };
 
+const buildVirtualDirectoryExistsChecker = (
+  virtualFiles: VirtualFiles,
+  baseDirectoryExists: NonNullable<ts.CompilerHost['directoryExists']>
+) => {
+  return (directoryName: string): boolean => {
+    return isVirtualDirectory(directoryName, virtualFiles) || baseDirectoryExists(directoryName);
+  };
+};
+
 const buildOptimizedFileContentReader = (
-  inputCode: string,
-  virtualFile: string,
-  virtualAbsPath: string,
+  version: string,
+  virtualFiles: VirtualFiles,
+  libDirectory: string,
   baseReadFile: ts.CompilerHost['readFile']
 ) => {
   return (fileName: string): string | undefined => {
-    if (matchesVirtualFileNameOrPath(fileName, virtualFile, virtualAbsPath)) {
-      return inputCode;
+    const virtualContent = findVirtualFileContent(fileName, virtualFiles);
+    if (virtualContent !== undefined) {
+      return virtualContent;
     }
     
     if (matchesTypeScriptLibFilePattern(fileName)) {
       const fs = require('fs');
-      const libPath = buildTypeScriptLibFilePath(fileName);
+      const libPath = buildTypeScriptLibFilePath(fileName, libDirectory);
       if (fs.existsSync(libPath)) {
         return fs.readFileSync(libPath, 'utf8');
       }
     }
     
-    return tryReadFileFromCacheOrDisk(fileName, baseReadFile);
+    return tryReadFileFromCacheOrDisk(version, fileName, baseReadFile);
   };
 };
 
 const tryReadFileFromCacheOrDisk = (
+  version: string,
   fileName: string, 
   baseReadFile: ts.CompilerHost['readFile']
 ): string | undefined => {
   try {
-    const cachedContent = getCachedFileContent(fileName);
+    const cachedContent = getCachedFileContent(version, fileName);
     if (cachedContent) {
       return cachedContent;
     }
     
     const content = baseReadFile(fileName);
     if (content) {
-      cacheFileContent(fileName, content);
+      cacheFileContent(version, fileName, content);
     }
     
     return content;
@@ -306,39 +437,185 @@ const tryReadFileFromCacheOrDisk = (
   }
 };
 
+// Templates and stylesheets only ever come from the project: anything else, e.g. a templateUrl
+// climbing out of it with `../`, would read files of the server
+const buildVirtualResourceResolver = (virtualFiles: VirtualFiles) => {
+  return (resourceName: string, containingFilePath: string): string | null => {
+    const path = require('path');
+    const resolvedPath = path.resolve(path.dirname(containingFilePath), resourceName);
+    return findVirtualFileContent(resolvedPath, virtualFiles) !== undefined ? resolvedPath : null;
+  };
+};
+
+const buildVirtualResourceReader = (virtualFiles: VirtualFiles) => {
+  return (fileName: string): string => {
+    const content = findVirtualFileContent(fileName, virtualFiles);
+    if (content === undefined) {
+      throw new Error(`Resource not found: ${fileName}`);
+    }
+    return content;
+  };
+};
+
+// Candidate file names Sass tries for an import such as `@use 'theme'`
+const buildSassImportCandidates = (filePath: string): string[] => {
+  const path = require('path');
+  if (/\.(scss|css)$/.test(filePath)) {
+    return [filePath, path.join(path.dirname(filePath), `_${path.basename(filePath)}`)];
+  }
+  return [
+    `${filePath}.scss`,
+    path.join(path.dirname(filePath), `_${path.basename(filePath)}.scss`),
+    `${filePath}.css`,
+    path.join(filePath, 'index.scss'),
+    path.join(filePath, '_index.scss'),
+  ];
+};
+
+/**
+ * Sass importer that resolves `@use`/`@import` against the virtual project files
+ */
+const buildVirtualSassImporter = (virtualFiles: VirtualFiles): sass.Importer<'async'> => ({
+  canonicalize: (url: string, context: { containingUrl: URL | null }) => {
+    if (!context.containingUrl || context.containingUrl.protocol !== 'file:') {
+      return null;
+    }
+    const path = require('path');
+    const basePath = url.startsWith('file:')
+      ? fileURLToPath(url)
+      : path.resolve(path.dirname(fileURLToPath(context.containingUrl)), url);
+    const match = buildSassImportCandidates(basePath).find(
+      candidate => findVirtualFileContent(candidate, virtualFiles) !== undefined
+    );
+    return match ? pathToFileURL(match) : null;
+  },
+  load: (canonicalUrl: URL) => {
+    const fileName = fileURLToPath(canonicalUrl);
+    const contents = findVirtualFileContent(fileName, virtualFiles);
+    if (contents === undefined) {
+      return null;
+    }
+    return { contents, syntax: fileName.endsWith('.css') ? 'css' : 'scss' };
+  },
+});
+
+/**
+ * Compile `.scss` style resources to CSS; plain CSS and inline styles pass through untouched.
+ * Stylesheets that don't compile, e.g. because they `@use` a file missing from the project, are
+ * invalid input rather than a compiler crash.
+ */
+const buildStyleResourceTransformer = (virtualFiles: VirtualFiles, root: string) => {
+  const importer = buildVirtualSassImporter(virtualFiles);
+
+  return async (data: string, context: ResourceHostContext): Promise<TransformResourceResult> => {
+    if (context.type !== 'style' || !context.resourceFile?.endsWith('.scss')) {
+      return null;
+    }
+
+    try {
+      const result = await sass.compileStringAsync(data, {
+        syntax: 'scss',
+        url: pathToFileURL(context.resourceFile),
+        // Relative loads would otherwise go to the file system
+        importer,
+        importers: [importer],
+      });
+      return { content: result.css };
+    } catch (error) {
+      if (!(error instanceof sass.Exception)) {
+        throw error;
+      }
+      throw new CompileError('INVALID_INPUT', formatSassError(error, context.resourceFile, root));
+    }
+  };
+};
+
+// `file:line:column: message`, with the project path of the stylesheet (or partial) at fault
+const formatSassError = (error: sass.Exception, resourceFile: string, root: string): string => {
+  const { url, start } = error.span;
+  const fileName = url?.protocol === 'file:' ? fileURLToPath(url) : resourceFile;
+  const projectPath = require('path').relative(root, fileName).replace(/\\/g, '/');
+  return `${projectPath}:${start.line + 1}:${start.column + 1}: ${error.sassMessage}`;
+};
+
 const buildPassthroughFileWriter = (originalWriteFile: ts.CompilerHost['writeFile']) => {
   return (fileName: string, content: string, ...rest: any[]): void => {
     originalWriteFile(fileName, content, ...(rest as [any]));
   };
 };
 
+/**
+ * Hand back the previous program's SourceFile when a file's text is unchanged, which lets
+ * TypeScript and Angular reuse its analysis instead of re-parsing and re-checking it
+ */
+const buildReusingSourceFileGetter = (
+  oldProgram: ts.Program,
+  baseGetSourceFile: ts.CompilerHost['getSourceFile'],
+  readFile: ts.CompilerHost['readFile']
+): ts.CompilerHost['getSourceFile'] => {
+  return (fileName, languageVersionOrOptions, ...rest) => {
+    const oldSourceFile = oldProgram.getSourceFile(fileName);
+    if (oldSourceFile && oldSourceFile.text === readFile(fileName)) {
+      return oldSourceFile;
+    }
+    return baseGetSourceFile(fileName, languageVersionOrOptions, ...rest);
+  };
+};
+
 export const createOptimizedHost = (
-  inputCode: string, 
-  virtualFile: string, 
-  options: ts.CompilerOptions
-): ts.CompilerHost => {
-  // Start from the default host so Angular's wrapper can inject shims/TCBs correctly
-  const host = ts.createCompilerHost(options, /* setParentNodes */ true);
-
-  // Cache base methods and virtual file path
+  toolchain: AngularToolchain,
+  virtualFiles: VirtualFiles,
+  options: ts.CompilerOptions,
+  oldProgram?: ts.Program,
+  oldVirtualFiles?: VirtualFiles
+): NgCompilerHost => {
+  // Start from the default host so Angular's wrapper can inject shims/TCBs correctly. It must come from
+  // the toolchain's TypeScript: source files of another TypeScript version don't fit its program
+  const host: NgCompilerHost = toolchain.ts.createCompilerHost(options, /* setParentNodes */ true);
+  const libDirectory = require('path').dirname(toolchain.ts.getDefaultLibFilePath(options));
+
+  // Cache base methods
   const baseFileExists = host.fileExists.bind(host);
+  const baseDirectoryExists = (host.directoryExists ?? toolchain.ts.sys.directoryExists).bind(host);
   const baseReadFile = host.readFile.bind(host);
   const originalWriteFile = host.writeFile.bind(host);
-  const virtualAbsPath = require('path').resolve(virtualFile);
 
   // Override host methods with optimized implementations
-  host.fileExists = buildOptimizedFileExistsChecker(virtualFile, virtualAbsPath, baseFileExists);
-  host.readFile = buildOptimizedFileContentReader(inputCode, virtualFile, virtualAbsPath, baseReadFile);
+  host.fileExists = buildOptimizedFileExistsChecker(virtualFiles, libDirectory, baseFileExists);
+  host.directoryExists = buildVirtualDirectoryExistsChecker(virtualFiles, baseDirectoryExists);
+  host.readFile = buildOptimizedFileContentReader(toolchain.version, virtualFiles, libDirectory, baseReadFile);
   host.writeFile = buildPassthroughFileWriter(originalWriteFile);
+
+  if (oldProgram) {
+    host.getSourceFile = buildReusingSourceFileGetter(oldProgram, host.getSourceFile.bind(host), host.readFile);
+  }
+
+  // Resolve and read templateUrl/styleUrls resources from the virtual project
+  host.resourceNameToFileName = buildVirtualResourceResolver(virtualFiles);
+  host.readResource = buildVirtualResourceReader(virtualFiles);
+  host.transformResource = buildStyleResourceTransformer(virtualFiles, toolchain.root);
+
+  // Angular only re-reads resources it's told about; without this an edited template keeps its old analysis
+  if (oldVirtualFiles) {
+    host.getModifiedResourceFiles = () => findModifiedResources(virtualFiles, oldVirtualFiles);
+  }
   
   // Override getDefaultLibFileName to ensure proper lib resolution
   host.getDefaultLibFileName = (options: ts.CompilerOptions) => {
-    return ts.getDefaultLibFileName(options);
+    return toolchain.ts.getDefaultLibFileName(options);
   };
 
   return host;
 };
 
+// Non-TypeScript project files (templates and stylesheets) added, changed or removed since the previous compilation
+const findModifiedResources = (virtualFiles: VirtualFiles, oldVirtualFiles: VirtualFiles): Set<string> => {
+  const fileNames = new Set([...Object.keys(virtualFiles), ...Object.keys(oldVirtualFiles)]);
+  return new Set(
+    [...fileNames].filter(fileName => !fileName.endsWith('.ts') && virtualFiles[fileName] !== oldVirtualFiles[fileName])
+  );
+};
+
 /**
  * Fallback resolution for modules TypeScript can't resolve
  */
@@ -417,7 +694,7 @@ const fallbackResolveModule = (moduleName: string): ts.ResolvedModule | undefine
 /**
  * Create a cached module resolver that's safe for concurrent use
  */
-const createCachedModuleResolver = (options: ts.CompilerOptions) => {
+const createCachedModuleResolver = (version: string, options: ts.CompilerOptions) => {
   return (moduleNames: string[], containingFile: string): (ts.ResolvedModule | undefined)[] => {
     // Initialize with correct length and fill with undefined
     const resolvedModules: (ts.ResolvedModule | undefined)[] = new Array(moduleNames.length).fill(undefined);
@@ -429,7 +706,7 @@ const createCachedModuleResolver = (options: ts.CompilerOptions) => {
       const cacheKey = createCacheKey(moduleName, containingFile);
       
       // Check enhanced cache first
-      const cachedModule = getEnhancedCachedModule(cacheKey);
+      const cachedModule = getEnhancedCachedModule(version, cacheKey);
       if (cachedModule) {
         resolvedModules[i] = {
           resolvedFileName: cachedModule.resolvedFileName,
@@ -439,10 +716,10 @@ const createCachedModuleResolver = (options: ts.CompilerOptions) => {
       }
       
       // Check legacy cache
-      const legacyCachedPath = getLegacyCachedModule(cacheKey);
+      const legacyCachedPath = getLegacyCachedModule(version, cacheKey);
       if (legacyCachedPath) {
         // Migrate to enhanced cache
-        migrateLegacyToEnhanced(cacheKey, legacyCachedPath);
+        migrateLegacyToEnhanced(version, cacheKey, legacyCachedPath);
         
         resolvedModules[i] = {
           resolvedFileName: legacyCachedPath,
@@ -485,7 +762,7 @@ const createCachedModuleResolver = (options: ts.CompilerOptions) => {
           // Another request is resolving this, do a quick recheck of cache
           // In the unlikely event of concurrent resolution of the same module,
           // we'll just resolve it again (better than blocking)
-          const recheckCached = getEnhancedCachedModule(cacheKey);
+          const recheckCached = getEnhancedCachedModule(version, cacheKey);
           if (recheckCached) {
             resolvedModules[index] = {
               resolvedFileName: recheckCached.resolvedFileName,
@@ -518,7 +795,7 @@ const createCachedModuleResolver = (options: ts.CompilerOptions) => {
 
         if (resolvedModule) {
           // Cache the successful resolution (this also clears the resolving flag)
-          cacheResolvedModule(cacheKey, resolvedModule);
+          cacheResolvedModule(version, cacheKey, resolvedModule);
         } else {
           // Clear resolving flag even if resolution failed
           resolvingModules.delete(cacheKey);
@@ -536,12 +813,35 @@ const createCachedModuleResolver = (options: ts.CompilerOptions) => {
  * Get cache statistics for monitoring
  */
 export const getCacheStats = () => {
+  const perVersion = [...versionCaches.values()];
+  const totalSize = (pick: (caches: VersionCaches) => { size: number }) =>
+    perVersion.reduce((total, caches) => total + pick(caches).size, 0);
+  const enhancedModuleCacheSize = totalSize(caches => caches.enhancedModuleCache);
+  const legacyModuleCacheSize = totalSize(caches => caches.modulePathCache);
+
   return {
-    enhancedModuleCacheSize: enhancedModuleCache.size,
-    legacyModuleCacheSize: modulePathCache.size,
-    fileCacheSize: fileContentCache.size,
+    enhancedModuleCacheSize,
+    legacyModuleCacheSize,
+    fileCacheSize: totalSize(caches => caches.fileContentCache),
     compilationCacheSize: compilationCache.size,
-    tsProgramCacheSize: tsProgramCache.size,
-    totalCachedModules: enhancedModuleCache.size + modulePathCache.size,
+    compilationCacheLayers: compilationCacheLayers.map(layer => layer.layer),
+    sessionProgramCacheSize: sessionProgramCache.size,
+    totalCachedModules: enhancedModuleCacheSize + legacyModuleCacheSize,
+    // Hit/miss/eviction counters and byte usage per in-memory cache
+    caches: {
+      compilation: compilationCache.stats(),
+      sessionProgram: sessionProgramCache.stats(),
+    },
+    // Module and file caches of each Angular version used on this instance
+    versionCaches: Object.fromEntries(
+      [...versionCaches].map(([version, caches]) => [
+        version,
+        {
+          enhancedModule: caches.enhancedModuleCache.stats(),
+          modulePath: caches.modulePathCache.stats(),
+          fileContent: caches.fileContentCache.stats(),
+        },
+      ])
+    ),
   };
-};
\ No newline at end of file
+};
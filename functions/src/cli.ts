@@ -0,0 +1,203 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import { CompileError, toCompileError } from './compile-errors';
+import { runCompilation } from './compile-pipeline';
+import { CompileResponse } from './compile-output';
+import { ComponentMetadata } from './component-metadata';
+import { parseCompileRequest } from './compile-request';
+import { readProjectFromDisk } from './read-project';
+
+const USAGE = `Usage: ivy-compile <file.ts>... [options]
+
+Compiles the files, plus the relative imports, templates and stylesheets they reference, with the
+Angular compiler and prints the Ivy output. Diagnostics are printed to stderr.
+
+Options:
+  --json                  Print the whole result (output, diagnostics, source mappings) as JSON
+  --angular-version <n>   Major Angular version to compile against (default 20)
+  --option <name=value>   Override a compiler option, e.g. --option strictTemplates=false
+  --keep-dev-mode         Keep the ɵsetClassMetadata and ɵsetClassDebugInfo blocks
+  --no-format             Print the output as emitted instead of formatting it
+  --minify                Production-style output, minified with terser
+  --type-check-blocks     Also print the type-check block of each component
+  --annotations           Explain each Ivy instruction in a comment above its line
+  --component-metadata    Also print the selector, inputs, outputs, queries, imports and defer
+                          blocks Angular found for each component and directive
+  -h, --help              Show this help
+
+Exits with 1 when the project has diagnostics or fails to compile, and with 2 on invalid arguments.`;
+
+// Exit codes
+const SUCCESS = 0;
+const COMPILATION_FAILED = 1;
+const INVALID_ARGUMENTS = 2;
+
+async function main(args: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean' },
+        'angular-version': { type: 'string' },
+        option: { type: 'string', multiple: true },
+        'keep-dev-mode': { type: 'boolean' },
+        'no-format': { type: 'boolean' },
+        minify: { type: 'boolean' },
+        'type-check-blocks': { type: 'boolean' },
+        annotations: { type: 'boolean' },
+        'component-metadata': { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err) {
+    return invalidArguments(err instanceof Error ? err.message : String(err));
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return SUCCESS;
+  }
+  if (positionals.length === 0) {
+    return invalidArguments('No files to compile');
+  }
+
+  const { options, error: optionError } = parseOptionOverrides(values.option ?? []);
+  if (!options) {
+    return invalidArguments(optionError!);
+  }
+
+  let files;
+  try {
+    ({ files } = readProjectFromDisk(positionals));
+  } catch (err) {
+    return invalidArguments(err instanceof Error ? err.message : String(err));
+  }
+
+  // Validated like a request to the compileAngular function, limits included
+  const { request, error: requestError } = parseCompileRequest({
+    files,
+    options,
+    output: {
+      keepDevModeBlocks: values['keep-dev-mode'] ?? false,
+      format: !values['no-format'],
+      minify: values.minify ?? false,
+      typeCheckBlocks: values['type-check-blocks'] ?? false,
+      annotations: values.annotations ?? false,
+      componentMetadata: values['component-metadata'] ?? false,
+    },
+    angularVersion: values['angular-version'],
+  });
+  if (!request) {
+    return reportError(requestError!, values.json, INVALID_ARGUMENTS);
+  }
+
+  try {
+    // Nobody is waiting on an HTTP response, so large projects may take as long as they need
+    const result = await runCompilation(request, { timeoutMs: Infinity });
+    if (values.json) {
+      process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    } else {
+      printResult(result);
+    }
+    return result.hasDiagnostics ? COMPILATION_FAILED : SUCCESS;
+  } catch (err) {
+    return reportError(toCompileError(err), values.json, COMPILATION_FAILED);
+  }
+}
+
+// `name=value` pairs; "true" and "false" are booleans, anything else is passed on as a string
+function parseOptionOverrides(pairs: string[]): { options?: Record<string, unknown>; error?: string } {
+  const options: Record<string, unknown> = {};
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      return { error: `Expected --option name=value, got "${pair}"` };
+    }
+    const value = pair.slice(separator + 1);
+    options[pair.slice(0, separator)] = value === 'true' ? true : value === 'false' ? false : value;
+  }
+  return { options };
+}
+
+function printResult(result: CompileResponse): void {
+  if (result.hasDiagnostics) {
+    process.stderr.write(`${result.compiledOutput}\n`);
+  } else {
+    const output = result.annotations ? withExplanations(result) : result.compiledOutput;
+    process.stdout.write(output.endsWith('\n') ? output : `${output}\n`);
+  }
+
+  for (const block of result.typeCheckBlocks ?? []) {
+    process.stdout.write(`\n// Type-check block of ${block.component} (${block.file})\n${block.source}\n`);
+  }
+
+  for (const metadata of result.componentMetadata ?? []) {
+    process.stdout.write(`\n${describeMetadata(metadata).map(line => `// ${line}`).join('\n')}\n`);
+  }
+}
+
+// One line per kind of metadata, leaving out the empty ones
+function describeMetadata(metadata: ComponentMetadata): string[] {
+  const { className, file, kind, selector, standalone, changeDetection } = metadata;
+  const aliased = (name: string, bindingName: string) => name === bindingName ? name : `${name} as ${bindingName}`;
+  const details: Array<[string, string[]]> = [
+    ['inputs', metadata.inputs.map(i => `${aliased(i.name, i.bindingName)} (${i.flavor}${i.required ? ', required' : ''})`)],
+    ['outputs', metadata.outputs.map(o => `${aliased(o.name, o.bindingName)} (${o.flavor})`)],
+    ['host', metadata.hostBindings.map(h =>
+      h.kind === 'attribute' ? `${h.name}="${h.value}"` : h.kind === 'property' ? `[${h.name}]="${h.value}"` : `(${h.name})="${h.value}"`
+    )],
+    ['queries', metadata.queries.map(q => `${q.name} = ${q.kind}(${q.predicate}) (${q.flavor})`)],
+    ['imports', metadata.imports],
+    ['deferredImports', metadata.deferredImports],
+    ['defer', metadata.deferBlocks.map(d =>
+      `${d.triggers.length > 0 ? d.triggers.join(', ') : 'on idle'}${d.dependencies.length > 0 ? ` loads ${d.dependencies.join(', ')}` : ''}`
+    )],
+  ];
+
+  return [
+    `${className} (${file}): ${kind} ${selector ?? '(no selector)'}${standalone ? ', standalone' : ''}${changeDetection ? `, ${changeDetection}` : ''}`,
+    ...details.filter(([, values]) => values.length > 0).map(([label, values]) => `  ${label}: ${values.join('; ')}`),
+  ];
+}
+
+// The output of each file with the explanations of a line's instructions as comments above it
+function withExplanations({ outputFiles = {}, annotations = {} }: CompileResponse): string {
+  const fileNames = Object.keys(outputFiles);
+  return fileNames.map(fileName => {
+    const lines: string[] = fileNames.length > 1 ? [`// ${fileName}`] : [];
+    const pending = [...annotations[fileName] ?? []];
+    let lineStart = 0;
+    for (const line of outputFiles[fileName].split('\n')) {
+      const lineEnd = lineStart + line.length;
+      const indent = /^\s*/.exec(line)![0];
+      while (pending.length > 0 && pending[0].start <= lineEnd) {
+        const { label, explanation } = pending.shift()!;
+        lines.push(...`${label}: ${explanation}`.split('\n').map(text => `${indent}// ${text}`));
+      }
+      lines.push(line);
+      lineStart = lineEnd + 1;
+    }
+    return lines.join('\n');
+  }).join('\n');
+}
+
+function reportError(error: CompileError, json: boolean | undefined, exitCode: number): number {
+  if (json) {
+    process.stdout.write(`${JSON.stringify(error.toResponseBody(), null, 2)}\n`);
+  } else {
+    process.stderr.write(`ivy-compile: ${error.message}\n`);
+  }
+  return exitCode;
+}
+
+function invalidArguments(message: string): number {
+  process.stderr.write(`ivy-compile: ${message}\n\n${USAGE}\n`);
+  return INVALID_ARGUMENTS;
+}
+
+main(process.argv.slice(2)).then(exitCode => {
+  process.exitCode = exitCode;
+});
@@ -0,0 +1,164 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as functions from 'firebase-functions';
+import type { Firestore } from 'firebase-admin/firestore';
+import type { BoundedCache } from './bounded-cache';
+import type { CacheLayer, CompileResponse } from './compile-output';
+
+/**
+ * Storage for compilation results by cache key. Backends never throw: failures are logged and
+ * treated as misses, so a broken persistent store only costs a recompilation.
+ */
+export interface CompilationCacheBackend {
+  readonly layer: CacheLayer;
+  get(key: string): Promise<CompileResponse | undefined>;
+  set(key: string, result: CompileResponse): Promise<void>;
+}
+
+// Persistent entries older than this are ignored (Firestore also deletes them given a TTL policy on `expiresAt`)
+export const PERSISTENT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Remote stores retry for a long time when unreachable; give up rather than stall the compilation
+export const REMOTE_CACHE_TIMEOUT_MS = 2000;
+// After a failed call a remote store is skipped for this long instead of timing out on every request
+export const REMOTE_CACHE_RETRY_MS = 60 * 1000;
+
+class RemoteCacheTimeoutError extends Error {}
+
+const withTimeout = <T>(promise: Promise<T>, operation: string): Promise<T> => {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new RemoteCacheTimeoutError(`${operation} timed out after ${REMOTE_CACHE_TIMEOUT_MS}ms`)),
+      REMOTE_CACHE_TIMEOUT_MS
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Per-instance cache; lost on cold starts and not shared between instances
+ */
+export const createMemoryCompilationCache = (
+  entries: BoundedCache<string, CompileResponse>
+): CompilationCacheBackend => ({
+  layer: 'memory',
+  get: async key => entries.get(key),
+  set: async (key, result) => entries.set(key, result),
+});
+
+// Not `instanceof Error`: errors of fs may come from another realm, e.g. under jest
+const isMissingFile = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && 'code' in error && error.code === 'ENOENT';
+
+/**
+ * One JSON file per entry; survives restarts of the emulator or a local server
+ */
+export const createFileCompilationCache = (directory: string): CompilationCacheBackend => {
+  // Cache keys are hex digests, but never let a key escape the cache directory
+  const entryPath = (key: string) => path.join(directory, `${crypto.createHash('sha256').update(key).digest('hex')}.json`);
+
+  return {
+    layer: 'file',
+    get: async key => {
+      try {
+        const { expiresAt, result } = JSON.parse(await fs.promises.readFile(entryPath(key), 'utf8'));
+        return expiresAt > Date.now() ? result : undefined;
+      } catch (error) {
+        if (!isMissingFile(error)) {
+          functions.logger.warn('Reading the file compilation cache failed:', error);
+        }
+        return undefined;
+      }
+    },
+    set: async (key, result) => {
+      try {
+        await fs.promises.mkdir(directory, { recursive: true });
+        // Write then rename so concurrent readers never see a partial entry
+        const file = entryPath(key);
+        const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+        await fs.promises.writeFile(tempFile, JSON.stringify({ expiresAt: Date.now() + PERSISTENT_CACHE_TTL_MS, result }));
+        await fs.promises.rename(tempFile, file);
+      } catch (error) {
+        functions.logger.warn('Writing the file compilation cache failed:', error);
+      }
+    },
+  };
+};
+
+/**
+ * Documents in a Firestore collection, shared by every function instance. Uses the emulator
+ * when FIRESTORE_EMULATOR_HOST is set.
+ */
+export const createFirestoreCompilationCache = (collection: string): CompilationCacheBackend => {
+  let firestore: Firestore | undefined;
+  let unavailableUntil = 0;
+  // Loaded on first use so instances using other backends don't pay for the Firestore client
+  const getCollection = () => {
+    if (!firestore) {
+      const { getApps, initializeApp } = require('firebase-admin/app') as typeof import('firebase-admin/app');
+      const { getFirestore } = require('firebase-admin/firestore') as typeof import('firebase-admin/firestore');
+      firestore = getFirestore(getApps()[0] ?? initializeApp());
+    }
+    return firestore.collection(collection);
+  };
+
+  return {
+    layer: 'firestore',
+    get: async key => {
+      if (Date.now() < unavailableUntil) return undefined;
+      try {
+        const snapshot = await withTimeout(getCollection().doc(key).get(), 'Firestore read');
+        const data = snapshot.data();
+        // Stored as JSON text: Firestore rejects undefined fields and limits nesting depth
+        return data && data.expiresAt.toMillis() > Date.now() ? JSON.parse(data.result) : undefined;
+      } catch (error) {
+        unavailableUntil = Date.now() + REMOTE_CACHE_RETRY_MS;
+        functions.logger.warn('Reading the Firestore compilation cache failed:', error);
+        return undefined;
+      }
+    },
+    set: async (key, result) => {
+      if (Date.now() < unavailableUntil) return;
+      try {
+        const { Timestamp } = require('firebase-admin/firestore') as typeof import('firebase-admin/firestore');
+        await withTimeout(
+          getCollection().doc(key).set({
+            result: JSON.stringify(result),
+            expiresAt: Timestamp.fromMillis(Date.now() + PERSISTENT_CACHE_TTL_MS),
+          }),
+          'Firestore write'
+        );
+      } catch (error) {
+        // Outputs above Firestore's 1 MiB document limit fail too, so only back off on timeouts
+        if (error instanceof RemoteCacheTimeoutError) {
+          unavailableUntil = Date.now() + REMOTE_CACHE_RETRY_MS;
+        }
+        functions.logger.warn('Writing the Firestore compilation cache failed:', error);
+      }
+    },
+  };
+};
+
+/**
+ * Persistent backend selected with COMPILATION_CACHE ("file" or "firestore"); unset or "memory"
+ * keeps results in memory only
+ */
+export const createPersistentCompilationCache = (
+  env: NodeJS.ProcessEnv = process.env
+): CompilationCacheBackend | undefined => {
+  switch (env.COMPILATION_CACHE) {
+    case undefined:
+    case '':
+    case 'memory':
+      return undefined;
+    case 'file':
+      return createFileCompilationCache(env.COMPILATION_CACHE_DIR || path.join(os.tmpdir(), 'ivy-compilation-cache'));
+    case 'firestore':
+      return createFirestoreCompilationCache(env.COMPILATION_CACHE_COLLECTION || 'compilationCache');
+    default:
+      functions.logger.warn(`Unknown COMPILATION_CACHE "${env.COMPILATION_CACHE}", caching in memory only`);
+      return undefined;
+  }
+};
@@ -0,0 +1,153 @@
+import * as crypto from 'crypto';
+import { dropSessionProgram } from './cache-manager';
+import { CompileError, CompileErrorBody, toCompileError } from './compile-errors';
+import { CompileResponse } from './compile-output';
+import { CompileRequest, parseCompileRequest } from './compile-request';
+import { RateLimitDecision } from './rate-limiter';
+
+// Enough for a docs section per request while staying well inside the batch function's timeout
+export const MAX_BATCH_SNIPPETS = 100;
+
+// Longest a batch may run, leaving room under the batch function's 300s timeout to answer.
+// Snippets not started by then fail with TIMEOUT and can be sent again.
+export const BATCH_TIMEOUT_MS = 270_000;
+
+// Snippet IDs are chosen by the client, e.g. "guide/signals#counter"
+const SNIPPET_ID_PATTERN = /^[\w.:/#-]{1,128}$/;
+
+// Settings at the top of a batch apply to every snippet that doesn't set its own
+const SHARED_FIELDS = ['options', 'output', 'angularVersion'];
+const BATCH_FIELDS = ['snippets', ...SHARED_FIELDS];
+
+export interface BatchSnippet {
+  id: string;
+  // Exactly one is set: snippets that are invalid on their own fail without failing the batch
+  request?: CompileRequest;
+  error?: CompileError;
+}
+
+export interface BatchRequest {
+  snippets: BatchSnippet[];
+}
+
+export type BatchItemResult = { result: CompileResponse } | { error: CompileErrorBody };
+
+export interface BatchResponse {
+  // Keyed by snippet ID, in the order the snippets were sent
+  results: Record<string, BatchItemResult>;
+  compilationTime: number;
+}
+
+export interface BatchCompiler {
+  compile: (request: CompileRequest) => Promise<CompileResponse>;
+  // Every snippet is rate limited like a compile request of its own
+  takeToken: () => RateLimitDecision;
+}
+
+/**
+ * Validate a batch body. Only problems with the batch itself are returned as `error`; each
+ * snippet is validated like a compile request and fails on its own.
+ */
+export function parseBatchRequest(body: unknown): { batch?: BatchRequest; error?: CompileError } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return invalid('Request body must be a JSON object');
+  }
+
+  const fields = body as Record<string, unknown>;
+  const unknownField = Object.keys(fields).find(name => !BATCH_FIELDS.includes(name));
+  if (unknownField) {
+    return invalid(`Unknown batch field: ${unknownField}`);
+  }
+
+  const { snippets } = fields;
+  if (!Array.isArray(snippets) || snippets.length === 0) {
+    return invalid('Snippets must be a non-empty array');
+  }
+  if (snippets.length > MAX_BATCH_SNIPPETS) {
+    return {
+      error: new CompileError('INVALID_INPUT', `Batches are limited to ${MAX_BATCH_SNIPPETS} snippets (got ${snippets.length})`, {
+        status: 413,
+      }),
+    };
+  }
+
+  const shared = Object.fromEntries(SHARED_FIELDS.filter(name => name in fields).map(name => [name, fields[name]]));
+  const parsed: BatchSnippet[] = [];
+  const ids = new Set<string>();
+
+  for (const [index, snippet] of snippets.entries()) {
+    if (typeof snippet !== 'object' || snippet === null || Array.isArray(snippet)) {
+      return invalid(`Snippet ${index} must be an object`);
+    }
+    const { id, ...requestFields } = snippet as Record<string, unknown>;
+    // Results are keyed by ID, so a batch with unusable IDs can't be answered at all
+    if (typeof id !== 'string' || !SNIPPET_ID_PATTERN.test(id)) {
+      return invalid(`Snippet ${index} needs an id of 1-128 letters, digits or ".:/#-_"`);
+    }
+    if (ids.has(id)) {
+      return invalid(`Duplicate snippet id: ${id}`);
+    }
+    ids.add(id);
+
+    // The batch shares one session between its snippets
+    if ('sessionId' in requestFields) {
+      parsed.push({ id, error: new CompileError('INVALID_INPUT', 'Snippets cannot set a session ID') });
+      continue;
+    }
+    const { request, error } = parseCompileRequest({ ...shared, ...requestFields });
+    parsed.push(request ? { id, request } : { id, error });
+  }
+
+  return { batch: { snippets: parsed } };
+}
+
+/**
+ * Compile the snippets of a batch one after another. They share a session, so each compilation
+ * builds on the previous program and reuses its parsed Angular typings instead of starting cold;
+ * results are still cached per snippet like single compilations.
+ */
+export async function runBatch(
+  batch: BatchRequest,
+  { compile, takeToken }: BatchCompiler,
+  startTime = Date.now()
+): Promise<BatchResponse> {
+  const sessionId = `batch-${crypto.randomUUID()}`;
+  const deadline = startTime + BATCH_TIMEOUT_MS;
+  const results: Record<string, BatchItemResult> = {};
+
+  try {
+    for (const { id, request, error } of batch.snippets) {
+      results[id] = error
+        ? { error: error.toResponseBody() }
+        : await compileSnippet({ ...request!, sessionId }, { compile, takeToken }, deadline);
+    }
+  } finally {
+    // Nobody continues a batch's session, so don't keep its program around
+    dropSessionProgram(sessionId);
+  }
+
+  return { results, compilationTime: Date.now() - startTime };
+}
+
+async function compileSnippet(request: CompileRequest, { compile, takeToken }: BatchCompiler, deadline: number): Promise<BatchItemResult> {
+  if (Date.now() > deadline) {
+    const message = `The batch took longer than ${BATCH_TIMEOUT_MS / 1000}s; send this snippet again`;
+    return { error: new CompileError('TIMEOUT', message).toResponseBody() };
+  }
+
+  const { allowed, retryAfterSeconds } = takeToken();
+  if (!allowed) {
+    const message = `Too many compilations, try again in ${retryAfterSeconds}s`;
+    return { error: new CompileError('RATE_LIMITED', message, { retryAfterSeconds }).toResponseBody() };
+  }
+
+  try {
+    return { result: await compile(request) };
+  } catch (err) {
+    return { error: toCompileError(err).toResponseBody() };
+  }
+}
+
+function invalid(message: string): { error: CompileError } {
+  return { error: new CompileError('INVALID_INPUT', message) };
+}
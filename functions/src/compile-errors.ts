@@ -0,0 +1,79 @@
+/**
+ * Stable codes for every way a compile request can fail. Clients switch on these rather than
+ * on messages, which are for people and may change.
+ */
+export type CompileErrorCode =
+  // The request body, a file or an option is malformed, or the project is over the size limits
+  | 'INVALID_INPUT'
+  // The origin isn't allowed or the API key is wrong
+  | 'ACCESS_DENIED'
+  | 'RATE_LIMITED'
+  // The project imports a package the compiler doesn't have
+  | 'MODULE_RESOLUTION_FAILED'
+  // The Angular compiler or TypeScript threw
+  | 'COMPILER_CRASH'
+  // The project compiled but prettier (or terser) couldn't process the output; `rawOutput` has it unformatted
+  | 'FORMATTING_FAILED'
+  | 'TIMEOUT';
+
+// HTTP status each kind of failure is answered with, unless the error names another one
+const DEFAULT_STATUS: Record<CompileErrorCode, number> = {
+  INVALID_INPUT: 400,
+  ACCESS_DENIED: 403,
+  RATE_LIMITED: 429,
+  MODULE_RESOLUTION_FAILED: 422,
+  COMPILER_CRASH: 500,
+  FORMATTING_FAILED: 500,
+  TIMEOUT: 504,
+};
+
+// JSON body of error responses and of the `error` Server-Sent Event
+export interface CompileErrorBody {
+  code: CompileErrorCode;
+  // Human-readable description
+  error: string;
+  // Package names that couldn't be resolved (MODULE_RESOLUTION_FAILED)
+  modules?: string[];
+  // Combined output before formatting (FORMATTING_FAILED)
+  rawOutput?: string;
+  // Seconds until the client may compile again (RATE_LIMITED)
+  retryAfterSeconds?: number;
+}
+
+export class CompileError extends Error {
+  readonly status: number;
+
+  constructor(
+    readonly code: CompileErrorCode,
+    message: string,
+    readonly details: Omit<CompileErrorBody, 'code' | 'error'> & { status?: number } = {}
+  ) {
+    super(message);
+    this.name = 'CompileError';
+    this.status = details.status ?? DEFAULT_STATUS[code];
+  }
+
+  toResponseBody(): CompileErrorBody {
+    const { status, ...details } = this.details;
+    return { code: this.code, error: this.message, ...details };
+  }
+}
+
+/**
+ * For packages a project imports that neither the function nor the browser compiler has
+ */
+export function moduleResolutionError(packages: string[]): CompileError {
+  const names = packages.map(name => `'${name}'`).join(', ');
+  const message = `Cannot find ${names}: projects can only import packages installed with the compiler, such as @angular/*, rxjs and tslib`;
+  return new CompileError('MODULE_RESOLUTION_FAILED', message, { modules: packages });
+}
+
+/**
+ * Anything thrown while compiling that isn't already classified is a compiler crash
+ */
+export function toCompileError(err: unknown): CompileError {
+  if (err instanceof CompileError) {
+    return err;
+  }
+  return new CompileError('COMPILER_CRASH', err instanceof Error ? err.message : 'Unknown error');
+}
@@ -0,0 +1,88 @@
+import type { CompileErrorCode } from './compile-errors';
+import type { CacheLayer, CompileResponse } from './compile-output';
+
+// Latency percentiles are computed over this many of the most recent compilations
+export const MAX_RECENT_COMPILATIONS = 500;
+
+interface CompilationSample {
+  durationMs: number;
+  cacheLayer?: CacheLayer;
+}
+
+export interface LatencyPercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+export interface CompilationMetrics {
+  // Counted since the instance started
+  total: number;
+  failed: number;
+  // Failed compilations by error code
+  errors: Partial<Record<CompileErrorCode, number>>;
+  withDiagnostics: number;
+  cacheHits: Partial<Record<CacheLayer, number>>;
+  // Over the recent samples only; null until the first compilation
+  recent: { count: number; latencyMs: LatencyPercentiles | null; cacheHitRate: number | null };
+}
+
+const recentCompilations: CompilationSample[] = [];
+let total = 0;
+let failed = 0;
+const errors: Partial<Record<CompileErrorCode, number>> = {};
+let withDiagnostics = 0;
+const cacheHits: Partial<Record<CacheLayer, number>> = {};
+
+export const recordCompilation = (result: CompileResponse): void => {
+  total++;
+  if (result.hasDiagnostics) withDiagnostics++;
+  const cacheLayer = result.fromCache ? result.cacheLayer ?? 'memory' : undefined;
+  if (cacheLayer) cacheHits[cacheLayer] = (cacheHits[cacheLayer] ?? 0) + 1;
+  addSample({ durationMs: result.compilationTime ?? 0, cacheLayer });
+};
+
+export const recordFailedCompilation = (durationMs: number, code: CompileErrorCode): void => {
+  total++;
+  failed++;
+  errors[code] = (errors[code] ?? 0) + 1;
+  addSample({ durationMs });
+};
+
+export const getCompilationMetrics = (): CompilationMetrics => {
+  const durations = recentCompilations.map(sample => sample.durationMs).sort((a, b) => a - b);
+  const hits = recentCompilations.filter(sample => sample.cacheLayer).length;
+
+  return {
+    total,
+    failed,
+    errors: { ...errors },
+    withDiagnostics,
+    cacheHits: { ...cacheHits },
+    recent: {
+      count: durations.length,
+      latencyMs: durations.length
+        ? {
+            p50: percentile(durations, 50),
+            p90: percentile(durations, 90),
+            p99: percentile(durations, 99),
+            max: durations[durations.length - 1],
+          }
+        : null,
+      cacheHitRate: durations.length ? hits / durations.length : null,
+    },
+  };
+};
+
+const addSample = (sample: CompilationSample): void => {
+  recentCompilations.push(sample);
+  if (recentCompilations.length > MAX_RECENT_COMPILATIONS) {
+    recentCompilations.shift();
+  }
+};
+
+// Nearest-rank percentile of an ascending list
+const percentile = (sorted: number[], p: number): number => {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+};
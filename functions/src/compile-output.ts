@@ -0,0 +1,351 @@
+import type { NgtscProgram } from '@angular/compiler-cli';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { CompileError } from './compile-errors';
+import type { ComponentMetadata } from './component-metadata';
+import { annotateInstructions, OutputAnnotation } from './instruction-annotations';
+import type { OutputOptions } from './output-options';
+import { buildSourceMappings, SourceMapping } from './source-mapping';
+import type { TypeCheckBlock } from './type-check-blocks';
+
+export type DiagnosticCategoryName = 'error' | 'warning' | 'suggestion' | 'message';
+
+// 1-based line and column, matching what editors display
+export interface DiagnosticPosition {
+  line: number;
+  column: number;
+}
+
+export interface DiagnosticMessageChain {
+  message: string;
+  code: number;
+  category: DiagnosticCategoryName;
+  next?: DiagnosticMessageChain[];
+}
+
+export interface CompileDiagnostic {
+  // Project-relative path, or null for diagnostics not tied to a file (e.g. compiler options)
+  file: string | null;
+  start: DiagnosticPosition | null;
+  end: DiagnosticPosition | null;
+  category: DiagnosticCategoryName;
+  code: number;
+  messageChain: DiagnosticMessageChain;
+  // "template" marks diagnostics produced by the Angular template type checker
+  source: 'typescript' | 'angular' | 'template';
+}
+
+// Where a cached compilation result was found: this instance's memory or a persistent store
+export type CacheLayer = 'memory' | 'file' | 'firestore';
+
+export interface CompileResponse {
+  compiledOutput: string;
+  hasDiagnostics: boolean;
+  // Compiled JavaScript per source file, keyed by project-relative path (e.g. "models.ts")
+  outputFiles?: Record<string, string>;
+  // Instruction-to-source spans per output file (same keys as outputFiles)
+  sourceMappings?: Record<string, SourceMapping[]>;
+  // Structured diagnostics; `compiledOutput` holds their plain text rendering
+  diagnostics?: CompileDiagnostic[];
+  // Diagnostic text grouped by the project-relative path it was reported in
+  fileDiagnostics?: Record<string, string>;
+  // UTF-8 bytes of each output file (same keys as outputFiles), for minified output
+  outputSizes?: Record<string, number>;
+  // Generated type-check block of each component, when requested with `output.typeCheckBlocks`
+  typeCheckBlocks?: TypeCheckBlock[];
+  // Explanations of the instructions per output file (same keys as outputFiles), when requested
+  // with `output.annotations`
+  annotations?: Record<string, OutputAnnotation[]>;
+  // Selector, inputs, outputs, host bindings, queries, imports and defer blocks of each component
+  // and directive, when requested with `output.componentMetadata`
+  componentMetadata?: ComponentMetadata[];
+  compilationTime?: number;
+  fromCache?: boolean;
+  // Cache layer that served the result when `fromCache` is set
+  cacheLayer?: CacheLayer;
+  // Exact @angular/core version the project was compiled against
+  angularVersion?: string;
+  timings?: Record<string, number>;
+}
+
+// Entry file name used when the request only carries a single `code` string
+export const ENTRY_FILE_NAME = 'main.ts';
+
+// Formatting of compiled output; callers add the parser their prettier build ships with
+export const PRETTIER_OPTIONS = {
+  semi: true,
+  singleQuote: true,
+  trailingComma: 'es5' as const,
+  tabWidth: 2,
+  useTabs: false,
+  printWidth: 80,
+  bracketSpacing: true,
+  arrowParens: 'avoid' as const,
+  endOfLine: 'lf' as const,
+};
+
+export interface CompiledOutput {
+  compiledOutput: string;
+  outputFiles: Record<string, string>;
+  sourceMappings: Record<string, SourceMapping[]>;
+  outputSizes?: Record<string, number>;
+  annotations?: Record<string, OutputAnnotation[]>;
+}
+
+export interface CompiledOutputInput {
+  // Sources by project-relative path, in the order outputs should be listed
+  projectFiles: Record<string, string>;
+  // Emitted JavaScript and source maps by project-relative path of their source
+  compiledFiles: Record<string, string>;
+  compiledSourceMaps: Record<string, string>;
+  // Absolute directory project paths are relative to
+  root: string;
+  output?: OutputOptions;
+  format: (code: string) => Promise<string>;
+  // Only needed for `output.minify`
+  minify?: (code: string) => Promise<string>;
+}
+
+/**
+ * Clean and format (or minify) every emitted file in parallel, keeping the project's file order,
+ * and map the generated instructions back to their template sources
+ */
+export async function buildCompiledOutput(input: CompiledOutputInput): Promise<CompiledOutput> {
+  const { projectFiles, compiledFiles, compiledSourceMaps, root, output = {}, format, minify } = input;
+  const outputFiles: Record<string, string> = {};
+  const sourceMappings: Record<string, SourceMapping[]> = {};
+  const orderedOutputs = Object.keys(projectFiles).filter(fileName => fileName in compiledFiles);
+  // Minified output has no dev-mode code either way; stripping it first keeps the source mappings aligned
+  const keepDevModeBlocks = output.keepDevModeBlocks && !output.minify;
+  const cleanedOutputs = orderedOutputs.map(fileName => {
+    const code = removeSourceMappingUrl(compiledFiles[fileName]);
+    return keepDevModeBlocks ? code : removeNgDevModeBlocks(code);
+  });
+
+  if (output.minify && !minify) {
+    throw new CompileError('INVALID_INPUT', 'This compiler cannot minify output');
+  }
+  const transform = output.minify ? minify! : output.format === false ? async (code: string) => code : format;
+  const formattedOutputs = await Promise.all(cleanedOutputs.map(transform)).catch((err: unknown) => {
+    // The output itself is fine, so hand it over unformatted
+    const step = output.minify ? 'Minifying' : 'Formatting';
+    throw new CompileError('FORMATTING_FAILED', `${step} the output failed: ${err instanceof Error ? err.message : err}`, {
+      rawOutput: combineOutputs(orderedOutputs, cleanedOutputs),
+    });
+  });
+
+  orderedOutputs.forEach((fileName, index) => {
+    outputFiles[fileName] = formattedOutputs[index];
+    if (compiledSourceMaps[fileName]) {
+      sourceMappings[fileName] = buildSourceMappings({
+        emittedCode: compiledFiles[fileName],
+        sourceMap: compiledSourceMaps[fileName],
+        removedRanges: keepDevModeBlocks ? [] : findNgDevModeBlocks(compiledFiles[fileName]),
+        finalCode: formattedOutputs[index],
+        // Sources are relative to the emitted file, which sits next to its .ts file
+        resolveSource: source => {
+          const sourcePath = path.relative(root, path.resolve(root, path.dirname(fileName), source)).replace(/\\/g, '/');
+          return sourcePath in projectFiles ? { file: sourcePath, content: projectFiles[sourcePath] } : undefined;
+        },
+      });
+    }
+  });
+
+  const result: CompiledOutput = { compiledOutput: combineOutputs(orderedOutputs, formattedOutputs), outputFiles, sourceMappings };
+  if (output.annotations) {
+    result.annotations = Object.fromEntries(
+      orderedOutputs.map((fileName, index) => [fileName, annotateInstructions(formattedOutputs[index])])
+    );
+  }
+  if (output.minify) {
+    const encoder = new TextEncoder();
+    result.outputSizes = Object.fromEntries(
+      orderedOutputs.map((fileName, index) => [fileName, encoder.encode(formattedOutputs[index]).length])
+    );
+  }
+  return result;
+}
+
+// Keep a single output blob for clients that only read `compiledOutput`
+function combineOutputs(fileNames: string[], outputs: string[]): string {
+  return fileNames.length === 1
+    ? outputs[0]
+    : fileNames.map((fileName, index) => `// ${fileName}\n${outputs[index]}`).join('\n');
+}
+
+/**
+ * Gather TypeScript and Angular diagnostics, including template type-checking, of an analyzed program
+ */
+export function collectDiagnostics(
+  ngProgram: NgtscProgram,
+  rootNames: readonly string[],
+  root: string,
+  // Lets type checking, usually the slowest part, be stopped
+  cancellationToken?: ts.CancellationToken
+): CompileDiagnostic[] {
+  const tsProgram = ngProgram.getTsProgram();
+  // Skip Angular's shim files: in an incremental program they still hold the previous type-check blocks,
+  // which aren't even valid TypeScript when they were generated for the TemplateTypeChecker
+  const checkedFiles = tsProgram.getSourceFiles()
+    .filter(sourceFile => !ngProgram.compiler.ignoreForDiagnostics.has(sourceFile));
+  const syntacticDiagnostics = checkedFiles
+    .flatMap(sourceFile => tsProgram.getSyntacticDiagnostics(sourceFile, cancellationToken));
+  const semanticDiagnostics = checkedFiles
+    .flatMap(sourceFile => tsProgram.getSemanticDiagnostics(sourceFile, cancellationToken));
+  const optionsDiagnostics = tsProgram.getOptionsDiagnostics();
+  const ngStructuralDiagnostics = ngProgram.getNgStructuralDiagnostics?.() ?? [];
+  const ngSemanticDiagnostics = rootNames.flatMap(fileName =>
+    tsProgram.getSourceFile(fileName) && typeof ngProgram.getNgSemanticDiagnostics === 'function'
+      ? (ngProgram.getNgSemanticDiagnostics(fileName) as ts.Diagnostic[])
+      : []
+  );
+
+  return [
+    ...syntacticDiagnostics.map(d => toCompileDiagnostic(d, root)),
+    ...semanticDiagnostics.map(d => toCompileDiagnostic(d, root)),
+    ...optionsDiagnostics.map(d => toCompileDiagnostic(d, root)),
+    ...ngStructuralDiagnostics.map(d => toCompileDiagnostic(d, root, 'angular')),
+    ...ngSemanticDiagnostics.map(d => toCompileDiagnostic(d, root, 'angular')),
+  ];
+}
+
+// TS2307 "Cannot find module 'x' or its corresponding type declarations"
+const CANNOT_FIND_MODULE_CODE = 2307;
+
+/**
+ * Packages the project imports that couldn't be resolved. Unresolved relative imports are
+ * mistakes in the project and stay ordinary diagnostics.
+ */
+export function findUnresolvedPackages(diagnostics: CompileDiagnostic[]): string[] {
+  const packages = diagnostics
+    .filter(diagnostic => diagnostic.code === CANNOT_FIND_MODULE_CODE)
+    .map(diagnostic => /'([^']+)'/.exec(diagnostic.messageChain.message)?.[1])
+    .filter((name): name is string => !!name && !name.startsWith('.') && !name.startsWith('/'));
+  return [...new Set(packages)];
+}
+
+// Dev-mode IIFEs that wrap ɵsetClassMetadata and ɵsetClassDebugInfo calls.
+// Match lazily up to the IIFE terminator: inlined templates and styles may contain semicolons
+const NG_DEV_MODE_BLOCK_PATTERN =
+  /\(\(\) => \{ \(typeof ngDevMode === "undefined" \|\| ngDevMode\) && i\d+\.ɵsetClass(?:Metadata|DebugInfo)\([\s\S]*?\); \}\)\(\);?\s*/g;
+
+export function removeNgDevModeBlocks(code: string): string {
+  // Remove both ɵsetClassMetadata and ɵsetClassDebugInfo blocks
+  return code.replace(NG_DEV_MODE_BLOCK_PATTERN, '');
+}
+
+// The map is consumed by the compiler, so drop the trailing reference to it
+export function removeSourceMappingUrl(code: string): string {
+  return code.replace(/\n?\/\/# sourceMappingURL=\S+\s*$/, '\n');
+}
+
+// Ranges removed by removeNgDevModeBlocks, used to keep source mappings aligned
+export function findNgDevModeBlocks(code: string): Array<[number, number]> {
+  return [...code.matchAll(NG_DEV_MODE_BLOCK_PATTERN)].map(match => [match.index!, match.index! + match[0].length]);
+}
+
+/**
+ * Convert a TypeScript/Angular diagnostic into the structured shape returned to clients
+ */
+export function toCompileDiagnostic(
+  d: ts.Diagnostic,
+  root: string,
+  origin: 'typescript' | 'angular' = 'typescript'
+): CompileDiagnostic {
+  const category = toCategoryName(d.category);
+  const toPosition = (offset: number) => {
+    const { line, character } = d.file!.getLineAndCharacterOfPosition(offset);
+    return { line: line + 1, column: character + 1 };
+  };
+  const hasPosition = d.file !== undefined && d.start !== undefined;
+
+  return {
+    file: d.file ? formatDiagnosticFilePath(d.file.fileName, root).replace(/^\//, '') : null,
+    start: hasPosition ? toPosition(d.start!) : null,
+    end: hasPosition ? toPosition(d.start! + (d.length ?? 0)) : null,
+    category,
+    code: d.code,
+    messageChain: typeof d.messageText === 'string'
+      ? { message: d.messageText, code: d.code, category }
+      : toMessageChain(d.messageText),
+    // Template type-check diagnostics are mapped back from TCBs and carry the id of their template
+    // (`templateId` in Angular 18 and older); other Angular diagnostics use negative "-99xxxx" codes (see ngErrorCode)
+    source: 'typeCheckId' in d || 'templateId' in d ? 'template' : d.code < 0 ? 'angular' : origin,
+  };
+}
+
+function toMessageChain(chain: ts.DiagnosticMessageChain): DiagnosticMessageChain {
+  return {
+    message: chain.messageText,
+    code: chain.code,
+    category: toCategoryName(chain.category),
+    ...(chain.next?.length ? { next: chain.next.map(toMessageChain) } : {}),
+  };
+}
+
+function toCategoryName(category: ts.DiagnosticCategory): CompileDiagnostic['category'] {
+  return (ts.DiagnosticCategory[category]?.toLowerCase() ?? 'error') as CompileDiagnostic['category'];
+}
+
+/**
+ * Build the cached part of a failed compilation: structured diagnostics plus their text rendering
+ */
+export function buildDiagnosticsResult(diagnostics: CompileDiagnostic[], entryFile: string, root: string): CompileResponse {
+  const fallbackFile = formatDiagnosticFilePath(entryFile, root).replace(/^\//, '');
+  const fileDiagnostics: Record<string, string[]> = {};
+
+  for (const diagnostic of diagnostics) {
+    (fileDiagnostics[diagnostic.file ?? fallbackFile] ??= []).push(formatDiagnosticText(diagnostic, fallbackFile));
+  }
+
+  return {
+    compiledOutput: diagnostics.map(d => formatDiagnosticText(d, fallbackFile)).join('\n'),
+    hasDiagnostics: true,
+    diagnostics,
+    fileDiagnostics: Object.fromEntries(
+      Object.entries(fileDiagnostics).map(([fileName, lines]) => [fileName, lines.join('\n')])
+    ),
+  };
+}
+
+// Render a diagnostic the way tsc does, e.g. "/main.ts(5,12): Error TS2339: Property ..."
+function formatDiagnosticText(diagnostic: CompileDiagnostic, fallbackFile: string): string {
+  const { line, column } = diagnostic.start ?? { line: 1, column: 1 };
+  const category = diagnostic.category.charAt(0).toUpperCase() + diagnostic.category.slice(1);
+  const message = flattenMessageChain(diagnostic.messageChain);
+
+  return `/${diagnostic.file ?? fallbackFile}(${line},${column}): ${category} TS${diagnostic.code}: ${message}`;
+}
+
+// Same layout as ts.flattenDiagnosticMessageText: nested messages are indented by two spaces
+function flattenMessageChain(chain: DiagnosticMessageChain, indent = 0): string {
+  const lines = [`${'  '.repeat(indent)}${chain.message}`];
+  for (const next of chain.next ?? []) {
+    lines.push(flattenMessageChain(next, indent + 1));
+  }
+  return lines.join('\n');
+}
+
+// Shorten diagnostic file paths for readability, e.g., show "/main.ts" instead of full absolute path
+export function formatDiagnosticFilePath(fileName: string, root: string): string {
+  try {
+    const norm = fileName.replace(/\\/g, '/');
+
+    // Render virtual project files relative to the project root, e.g. /shared/models.ts;
+    // siblings of the root that merely share its prefix (/tmp/project-2) are outside it
+    const normRoot = root.replace(/\\/g, '/').replace(/\/+$/, '');
+    if (norm.startsWith(`${normRoot}/`)) {
+      return norm.slice(normRoot.length);
+    }
+
+    if (norm === ENTRY_FILE_NAME) {
+      return `/${ENTRY_FILE_NAME}`;
+    }
+
+    // Fallback to just the basename with a leading slash
+    return `/${path.basename(norm)}`;
+  } catch {
+    // On any unexpected error, fall back to a short name
+    return `/${path.basename(fileName)}`;
+  }
+}
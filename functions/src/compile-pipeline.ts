@@ -0,0 +1,194 @@
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as prettier from 'prettier';
+import * as terser from 'terser';
+import * as ts from 'typescript';
+import {
+  cacheCompilation,
+  createOptimizedHost,
+  cacheSessionProgram,
+  getCachedCompilation,
+  takeSessionProgram,
+  VirtualFiles,
+} from './cache-manager';
+import { RequestedCompilerOptions, serializeCompilerOptions } from './compiler-options';
+import { CompileResponse, PRETTIER_OPTIONS } from './compile-output';
+import { CompileError } from './compile-errors';
+import { collectEmittedFiles, compileProgram, needsTemplateTypeChecker, resolveProgramOptions } from './compile-program';
+import { getAngularToolchain } from './angular-versions';
+import { OutputOptions, PRODUCTION_GLOBAL_DEFS, serializeOutputOptions } from './output-options';
+import { CompileRequest, isSourceFile, ProjectFiles } from './compile-request';
+
+// The compile pipeline behind the compileAngular function and the ivy-compile CLI; nothing in
+// here knows about HTTP
+
+// Longest a compilation may take, leaving room under the function's 60s timeout to answer
+export const COMPILE_TIMEOUT_MS = 25_000;
+
+// Close to what the Angular CLI runs on production bundles
+const TERSER_OPTIONS: terser.MinifyOptions = {
+  module: true,
+  compress: { global_defs: PRODUCTION_GLOBAL_DEFS, passes: 2, pure_getters: true },
+  mangle: true,
+  format: { comments: false },
+};
+
+// Progress event sent when a compiler phase finishes
+export interface CompilePhaseEvent {
+  phase: string;
+  // Milliseconds spent in this phase, and since the request was received
+  duration: number;
+  elapsed: number;
+}
+
+export type PhaseListener = (event: CompilePhaseEvent) => void | Promise<void>;
+
+/**
+ * Compile a project, reporting each finished phase to `onPhase`. Results (including
+ * diagnostics) are cached by file contents and compiler options. Failures are thrown as a
+ * CompileError, e.g. TIMEOUT once the compilation runs past `timeoutMs`.
+ */
+export async function runCompilation(
+  request: CompileRequest,
+  {
+    startTime = Date.now(),
+    onPhase,
+    timeoutMs = COMPILE_TIMEOUT_MS,
+  }: { startTime?: number; onPhase?: PhaseListener; timeoutMs?: number } = {}
+): Promise<CompileResponse> {
+  const { files: projectFiles, options: requestedOptions, output, angularVersion, sessionId } = request;
+  const timings: Record<string, number> = {};
+  let lastPhaseEnd = startTime;
+
+  // Compiler phases are synchronous, so the deadline is checked between them and inside type checking.
+  // A stopped program is dropped rather than kept for the session, so its half-checked state is never reused.
+  const deadline = startTime + timeoutMs;
+  const checkDeadline = () => {
+    if (Date.now() > deadline) {
+      throw new CompileError('TIMEOUT', `Compilation took longer than ${timeoutMs / 1000}s and was stopped`);
+    }
+  };
+  const cancellationToken: ts.CancellationToken = {
+    isCancellationRequested: () => Date.now() > deadline,
+    throwIfCancellationRequested: checkDeadline,
+  };
+
+  // Record how long the phase that just finished took and tell listeners about it
+  const completePhase = async (phase: string) => {
+    const now = Date.now();
+    timings[phase] = now - lastPhaseEnd;
+    lastPhaseEnd = now;
+    checkDeadline();
+    await onPhase?.({ phase, duration: timings[phase], elapsed: now - startTime });
+  };
+
+  // Loads the version's compiler and TypeScript on its first compilation
+  const toolchain = getAngularToolchain(angularVersion);
+  const { root } = toolchain;
+  await completePhase('setup');
+
+  // Generate cache key from the hash of every project file and the requested compiler options
+  const codeHash = hashProjectFiles(projectFiles, requestedOptions, output);
+  await completePhase('hashing');
+
+  // Check cache first
+  const cached = await getCachedCompilation(codeHash, toolchain);
+  await completePhase('cacheCheck');
+
+  if (cached) {
+    return {
+      ...cached.result,
+      compilationTime: Date.now() - startTime,
+      fromCache: true,
+      angularVersion: toolchain.packageVersions.angular,
+      cacheLayer: cached.layer,
+      timings
+    };
+  }
+
+  const virtualFiles = toVirtualFiles(projectFiles, root);
+  const rootNames = Object.keys(virtualFiles).filter(isSourceFile);
+
+  // Build on the session's previous program when it was compiled with the same version and options
+  const optionsKey = `${angularVersion}:${serializeCompilerOptions(requestedOptions)}${needsTemplateTypeChecker(output) ? ':tcb' : ''}`;
+  const previous = sessionId ? takeSessionProgram(sessionId, optionsKey) : undefined;
+  const oldProgram = previous?.program;
+
+  // Incremental emits skip unchanged files, so start from the session's previous output
+  const compiledFiles: ProjectFiles = { ...previous?.compiledFiles };
+  const compiledSourceMaps: ProjectFiles = { ...previous?.compiledSourceMaps };
+
+  // Create thread-safe optimized host with cached module resolution
+  const ngCompilerOptions = resolveProgramOptions(requestedOptions, output);
+  const host = createOptimizedHost(toolchain, virtualFiles, ngCompilerOptions, oldProgram?.getTsProgram(), previous?.virtualFiles);
+
+  // Override writeFile to capture compiled output of every project file for this specific request
+  const writeEmittedFile = collectEmittedFiles(compiledFiles, compiledSourceMaps, fileName => toProjectPath(fileName, root));
+  host.writeFile = (fileName, content, _bom, _onError, sourceFiles) => writeEmittedFile(fileName, content, sourceFiles);
+
+  // Add performance logging for host creation
+  await completePhase('hostCreation');
+
+  // Create NgProgram with optimized host (module resolution is cached internally)
+  const ngProgram = new toolchain.ngc.NgtscProgram(rootNames, ngCompilerOptions, host, oldProgram);
+  // 1 when the program was created incrementally from the session's previous one, 0 for a cold start
+  timings.incremental = oldProgram ? 1 : 0;
+  await completePhase('programCreation');
+
+  const result = await compileProgram(ngProgram, {
+    rootNames,
+    root,
+    projectFiles,
+    compiledFiles,
+    compiledSourceMaps,
+    output,
+    tsApi: toolchain.ts,
+    cancellationToken,
+    completePhase,
+    // Hand the program back to the session once this compilation no longer uses it
+    keepProgram: () => {
+      if (sessionId) {
+        cacheSessionProgram(sessionId, { program: ngProgram, optionsKey, compiledFiles, compiledSourceMaps, virtualFiles });
+      }
+    },
+    format: code => prettier.format(code, { ...PRETTIER_OPTIONS, parser: 'typescript' }),
+    minify: async code => (await terser.minify(code, TERSER_OPTIONS)).code ?? '',
+  });
+
+  // Diagnostics are cached like successful output
+  await cacheCompilation(codeHash, toolchain, result);
+
+  return {
+    ...result,
+    compilationTime: Date.now() - startTime,
+    fromCache: false,
+    angularVersion: toolchain.packageVersions.angular,
+    timings
+  };
+}
+
+function hashProjectFiles(files: ProjectFiles, options: RequestedCompilerOptions, output: OutputOptions): string {
+  const hash = crypto
+    .createHash('md5')
+    .update(serializeCompilerOptions(options))
+    .update('\0')
+    .update(serializeOutputOptions(output))
+    .update('\0');
+  for (const fileName of Object.keys(files).sort()) {
+    hash.update(fileName).update('\0').update(files[fileName].trim()).update('\0');
+  }
+  return hash.digest('hex');
+}
+
+// Project files are placed under `root`, the directory of the Angular version they're compiled against
+function toVirtualFiles(files: ProjectFiles, root: string): VirtualFiles {
+  const virtualFiles: VirtualFiles = {};
+  for (const [fileName, content] of Object.entries(files)) {
+    virtualFiles[path.resolve(root, fileName)] = content;
+  }
+  return virtualFiles;
+}
+
+function toProjectPath(fileName: string, root: string): string {
+  return path.relative(root, path.resolve(fileName)).replace(/\\/g, '/');
+}
@@ -0,0 +1,152 @@
+import type { NgtscProgram } from '@angular/compiler-cli';
+import * as ts from 'typescript';
+import { CompileError, moduleResolutionError } from './compile-errors';
+import {
+  buildCompiledOutput,
+  buildDiagnosticsResult,
+  collectDiagnostics,
+  CompiledOutputInput,
+  CompileResponse,
+  findUnresolvedPackages,
+  toCompileDiagnostic,
+} from './compile-output';
+import { collectComponentMetadata } from './component-metadata';
+import { RequestedCompilerOptions, resolveCompilerOptions } from './compiler-options';
+import type { OutputOptions } from './output-options';
+import { collectTypeCheckBlocks, TYPE_CHECK_BLOCK_COMPILER_OPTIONS } from './type-check-blocks';
+
+// The steps of a compilation the compileAngular function and the in-browser compiler worker share;
+// each brings its own compiler host, caching and formatter
+
+// Emitted JavaScript of a whole project; sources are limited too, but an SCSS loop can still turn a
+// few lines into megabytes of styles
+export const MAX_OUTPUT_BYTES = 1024 * 1024;
+
+// Type-check blocks and component metadata are read from the TemplateTypeChecker, which needs its own options
+export function needsTemplateTypeChecker(output: OutputOptions): boolean {
+  return Boolean(output.typeCheckBlocks || output.componentMetadata);
+}
+
+/**
+ * Compiler options of the program for a request: the requested overrides of the defaults, plus
+ * what the requested output needs
+ */
+export function resolveProgramOptions(
+  requested: RequestedCompilerOptions,
+  output: OutputOptions
+): ReturnType<typeof resolveCompilerOptions> {
+  const options = resolveCompilerOptions(requested);
+  if (needsTemplateTypeChecker(output)) {
+    Object.assign(options, TYPE_CHECK_BLOCK_COMPILER_OPTIONS);
+  }
+  return options;
+}
+
+/**
+ * `writeFile` for a compiler host: keeps emitted JavaScript and source maps by the project path
+ * of the file they were emitted for
+ */
+export function collectEmittedFiles(
+  compiledFiles: Record<string, string>,
+  compiledSourceMaps: Record<string, string>,
+  toProjectPath: (fileName: string) => string
+): (fileName: string, content: string, sourceFiles?: readonly ts.SourceFile[]) => void {
+  return (fileName, content, sourceFiles) => {
+    const sourceFileName = sourceFiles?.[0]?.fileName ?? fileName.replace(/\.js(\.map)?$/, '.ts');
+    if (fileName.endsWith('.js')) {
+      compiledFiles[toProjectPath(sourceFileName)] = content;
+    } else if (fileName.endsWith('.js.map')) {
+      compiledSourceMaps[toProjectPath(sourceFileName)] = content;
+    }
+  };
+}
+
+export interface ProgramCompilation extends Pick<CompiledOutputInput, 'projectFiles' | 'root' | 'format' | 'minify'> {
+  rootNames: readonly string[];
+  // Filled by the host's writeFile (see collectEmittedFiles)
+  compiledFiles: Record<string, string>;
+  compiledSourceMaps: Record<string, string>;
+  output: OutputOptions;
+  // The TypeScript the program was created with
+  tsApi?: typeof ts;
+  cancellationToken?: ts.CancellationToken;
+  completePhase: (phase: string) => void | Promise<void>;
+  // Called once the program is complete enough to build on, i.e. it wasn't stopped during analysis
+  keepProgram?: () => void;
+}
+
+/**
+ * Analyze, type-check and emit a created program and build the response: the project's
+ * diagnostics when it has errors, otherwise its formatted output. Timings and cache fields are
+ * left to the caller.
+ */
+export async function compileProgram(ngProgram: NgtscProgram, compilation: ProgramCompilation): Promise<CompileResponse> {
+  const { rootNames, root, projectFiles, compiledFiles, compiledSourceMaps, output, tsApi, completePhase, keepProgram } = compilation;
+
+  // Template type checking only covers components that were analyzed, and needs their shims
+  await ngProgram.compiler.analyzeAsync();
+  const compiler = ngProgram.compiler as any;
+  if (compiler.ensureAllShimsForAllFiles) {
+    compiler.ensureAllShimsForAllFiles();
+  }
+
+  const diagnostics = collectDiagnostics(ngProgram, rootNames, root, compilation.cancellationToken);
+  const typeCheckBlocks = output.typeCheckBlocks ? collectTypeCheckBlocks(ngProgram, rootNames, root, tsApi) : undefined;
+  const componentMetadata = output.componentMetadata
+    ? collectComponentMetadata(ngProgram, rootNames, root, tsApi)
+    : undefined;
+  await completePhase('analysis');
+
+  // Nothing in the project can fix a missing package, so this is an error rather than a diagnostic
+  const unresolvedPackages = findUnresolvedPackages(diagnostics);
+  if (unresolvedPackages.length > 0) {
+    keepProgram?.();
+    throw moduleResolutionError(unresolvedPackages);
+  }
+
+  if (diagnostics.length > 0) {
+    keepProgram?.();
+    return { ...buildDiagnosticsResult(diagnostics, rootNames[0], root), typeCheckBlocks, componentMetadata };
+  }
+
+  const { diagnostics: emitDiagnostics } = ngProgram.emit();
+  keepProgram?.();
+  await completePhase('emission');
+
+  const encoder = new TextEncoder();
+  const outputBytes = Object.values(compiledFiles).reduce((total, content) => total + encoder.encode(content).length, 0);
+  if (outputBytes > MAX_OUTPUT_BYTES) {
+    const message = `Compiled output is limited to ${MAX_OUTPUT_BYTES / 1024} KiB (got ${Math.ceil(outputBytes / 1024)} KiB)`;
+    throw new CompileError('INVALID_INPUT', message, { status: 413 });
+  }
+
+  if (emitDiagnostics.length > 0) {
+    return {
+      ...buildDiagnosticsResult(emitDiagnostics.map(d => toCompileDiagnostic(d, root)), rootNames[0], root),
+      typeCheckBlocks,
+      componentMetadata,
+    };
+  }
+
+  const { compiledOutput, outputFiles, sourceMappings, outputSizes, annotations } = await buildCompiledOutput({
+    projectFiles,
+    compiledFiles,
+    compiledSourceMaps,
+    root,
+    output,
+    format: compilation.format,
+    minify: compilation.minify,
+  });
+  await completePhase('formatting');
+
+  return {
+    compiledOutput,
+    hasDiagnostics: false,
+    outputFiles,
+    sourceMappings,
+    outputSizes,
+    typeCheckBlocks,
+    annotations,
+    componentMetadata,
+  };
+}
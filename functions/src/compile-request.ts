@@ -0,0 +1,155 @@
+import * as path from 'path';
+import { parseAngularVersion } from './angular-versions';
+import { CompileError } from './compile-errors';
+import { ENTRY_FILE_NAME } from './compile-output';
+import { parseCompilerOptions, RequestedCompilerOptions } from './compiler-options';
+import { OutputOptions, parseOutputOptions } from './output-options';
+
+// Companion resources that components can reference through templateUrl/styleUrls
+const RESOURCE_FILE_EXTENSIONS = ['.html', '.css', '.scss'];
+
+// Editor sessions pick their own ID; it only selects which previous program to build on
+const SESSION_ID_PATTERN = /^[\w-]{1,64}$/;
+
+// Playground projects are a handful of small files; anything bigger is not worth a 2 GiB instance
+export const MAX_PROJECT_FILES = 50;
+export const MAX_PROJECT_BYTES = 256 * 1024;
+
+// Fields a request body may have; anything else is most likely a client bug, so it's rejected
+const REQUEST_FIELDS = ['files', 'code', 'options', 'output', 'angularVersion', 'sessionId'];
+
+// Project files as sent by the client, keyed by project-relative path (e.g. "shared/models.ts")
+export type ProjectFiles = Record<string, string>;
+
+export interface CompileRequest {
+  files: ProjectFiles;
+  options: RequestedCompilerOptions;
+  // How the emitted JavaScript is presented (see output-options.ts)
+  output: OutputOptions;
+  // Major Angular version to compile against (see angular-versions.ts)
+  angularVersion: string;
+  // Compilations of the same session reuse the previous program incrementally
+  sessionId?: string;
+}
+
+/**
+ * Validate a compile request body, field by field
+ */
+export function parseCompileRequest(body: unknown): { request?: CompileRequest; error?: CompileError } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return invalid('Request body must be a JSON object');
+  }
+
+  const fields = body as Record<string, unknown>;
+  const unknownField = Object.keys(fields).find(name => !REQUEST_FIELDS.includes(name));
+  if (unknownField) {
+    return invalid(`Unknown request field: ${unknownField}`);
+  }
+
+  const { files, error: filesError } = readProjectFiles(fields);
+  if (!files) {
+    return { error: filesError };
+  }
+
+  const { options, error: optionsError } = parseCompilerOptions(fields.options);
+  if (!options) {
+    return invalid(optionsError!);
+  }
+
+  const { options: output, error: outputError } = parseOutputOptions(fields.output);
+  if (!output) {
+    return invalid(outputError!);
+  }
+
+  const { version: angularVersion, error: versionError } = parseAngularVersion(fields.angularVersion);
+  if (!angularVersion) {
+    return invalid(versionError!);
+  }
+
+  const { sessionId } = fields;
+  if (sessionId !== undefined && (typeof sessionId !== 'string' || !SESSION_ID_PATTERN.test(sessionId))) {
+    return invalid('Session ID must be 1-64 letters, digits, "-" or "_"');
+  }
+
+  return { request: { files, options, output, angularVersion, sessionId } };
+}
+
+export function isSourceFile(fileName: string): boolean {
+  return fileName.endsWith('.ts') && !fileName.endsWith('.d.ts');
+}
+
+/**
+ * Read the project files from the request body. Accepts a `files` map of project-relative
+ * paths to contents (TypeScript sources plus .html/.css/.scss resources), or the legacy
+ * single `code` string which is compiled as main.ts.
+ */
+function readProjectFiles(fields: Record<string, unknown>): { files?: ProjectFiles; error?: CompileError } {
+  if (fields.files === undefined) {
+    if (typeof fields.code !== 'string' || !fields.code) {
+      return invalid(fields.code === undefined ? 'Code is required' : 'Code must be a non-empty string');
+    }
+    return checkProjectSize({ [ENTRY_FILE_NAME]: fields.code });
+  }
+
+  if (fields.code !== undefined) {
+    return invalid('Send either files or code, not both');
+  }
+
+  if (typeof fields.files !== 'object' || fields.files === null || Array.isArray(fields.files)) {
+    return invalid('Files must be an object mapping file paths to contents');
+  }
+
+  const files: ProjectFiles = {};
+  for (const [rawPath, content] of Object.entries(fields.files)) {
+    const fileName = normalizeProjectPath(rawPath);
+    if (!fileName) {
+      return invalid(`Invalid file path: ${rawPath}`);
+    }
+    if (!isSourceFile(fileName) && !RESOURCE_FILE_EXTENSIONS.includes(path.extname(fileName))) {
+      return invalid(`Unsupported file type: ${rawPath}`);
+    }
+    if (typeof content !== 'string') {
+      return invalid(`Content of ${rawPath} must be a string`);
+    }
+    files[fileName] = content;
+  }
+
+  if (!Object.keys(files).some(isSourceFile)) {
+    return invalid('Code is required');
+  }
+
+  return checkProjectSize(files);
+}
+
+function checkProjectSize(files: ProjectFiles): { files?: ProjectFiles; error?: CompileError } {
+  const fileCount = Object.keys(files).length;
+  if (fileCount > MAX_PROJECT_FILES) {
+    return { error: tooLarge(`Projects are limited to ${MAX_PROJECT_FILES} files (got ${fileCount})`) };
+  }
+
+  const bytes = Object.values(files).reduce((total, content) => total + Buffer.byteLength(content), 0);
+  if (bytes > MAX_PROJECT_BYTES) {
+    return {
+      error: tooLarge(`Projects are limited to ${MAX_PROJECT_BYTES / 1024} KiB of source (got ${Math.ceil(bytes / 1024)} KiB)`),
+    };
+  }
+
+  return { files };
+}
+
+// Normalize a client path to a project-relative POSIX path, rejecting anything outside the project
+function normalizeProjectPath(rawPath: string): string | undefined {
+  const fileName = path.posix.normalize(rawPath.replace(/\\/g, '/').replace(/^\/+/, ''));
+  if (!fileName || fileName === '.' || fileName.startsWith('../') || fileName === '..') {
+    return undefined;
+  }
+  return fileName;
+}
+
+function invalid(message: string): { error: CompileError } {
+  return { error: new CompileError('INVALID_INPUT', message) };
+}
+
+function tooLarge(message: string): CompileError {
+  return new CompileError('INVALID_INPUT', message, { status: 413 });
+}
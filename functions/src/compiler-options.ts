@@ -0,0 +1,170 @@
+import type { CompilerOptions as NgcCompilerOptions } from '@angular/compiler-cli';
+import * as ts from 'typescript';
+
+export const sharedCompilerOptions: ts.CompilerOptions = {
+  module: ts.ModuleKind.ES2022,
+  target: ts.ScriptTarget.ES2022,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  skipLibCheck: true, // Skip lib checking for faster compilation but enable template checking
+  skipDefaultLibCheck: true, // Skip default lib checking
+  sourceMap: true, // Used to map generated instructions back to template nodes
+
+  // Required for Angular decorators
+  experimentalDecorators: true,
+  emitDecoratorMetadata: true,
+
+  // Helpful strictness that doesn't slow down much
+  strict: true,
+  noImplicitOverride: true,
+  noPropertyAccessFromIndexSignature: true,
+  noFallthroughCasesInSwitch: true,
+
+  // Performance optimizations
+  isolatedModules: true,
+  assumeChangesOnlyAffectDirectDependencies: true,
+  disableSourceOfProjectReferenceRedirect: true,
+
+  // Skip unnecessary checks for faster compilation
+  noResolve: false, // Keep this false for Angular imports
+  noImplicitAny: false, // Allow implicit any for faster compilation
+  noImplicitReturns: false // Skip strict return checking
+};
+
+// Angular-specific compiler options for strict template checking
+export const angularCompilerOptions: Partial<NgcCompilerOptions> = {
+  // Align with angularCompilerOptions in root tsconfig.json
+  enableI18nLegacyMessageIdFormat: false,
+  strictInjectionParameters: true,
+  strictInputAccessModifiers: true,
+  typeCheckHostBindings: true,
+
+  // Strict template type checking flags
+  strictTemplates: true,
+  strictAttributeTypes: true,
+  strictNullInputTypes: true,
+  strictInputTypes: true,
+  strictSafeNavigationTypes: true,
+  strictDomLocalRefTypes: true,
+  strictOutputEventTypes: true,
+  strictDomEventTypes: true,
+  strictContextGenerics: true,
+  strictLiteralTypes: true,
+  enableBlockSyntax: true,
+  enableLetSyntax: true,
+
+  // CRITICAL: Ensure template type checker is enabled
+  enableTemplateTypeChecker: true,
+  // Force full AOT compilation for apps (needed for template type checking)
+  compilationMode: 'full',
+  // Additional options that might be needed for template type checking
+  allowEmptyCodegenFiles: true,
+  generateDeepReexports: false,
+};
+
+// Targets offered to clients, mapped to their TypeScript enum values
+const TARGETS = {
+  ES2015: ts.ScriptTarget.ES2015,
+  ES2017: ts.ScriptTarget.ES2017,
+  ES2020: ts.ScriptTarget.ES2020,
+  ES2022: ts.ScriptTarget.ES2022,
+  ESNext: ts.ScriptTarget.ESNext,
+} as const;
+
+// Fine-grained template checks that `strictTemplates` switches on as a group
+const STRICT_TEMPLATE_FLAGS = [
+  'strictAttributeTypes',
+  'strictNullInputTypes',
+  'strictInputTypes',
+  'strictSafeNavigationTypes',
+  'strictDomLocalRefTypes',
+  'strictOutputEventTypes',
+  'strictDomEventTypes',
+  'strictContextGenerics',
+  'strictLiteralTypes',
+] as const;
+
+/**
+ * Compiler options a request may override. Anything else is rejected so clients can't
+ * change settings the playground depends on (module format, decorators, emit paths).
+ */
+export interface RequestedCompilerOptions {
+  target?: keyof typeof TARGETS;
+  strict?: boolean;
+  useDefineForClassFields?: boolean;
+  compilationMode?: 'full' | 'partial';
+  strictTemplates?: boolean;
+  strictInjectionParameters?: boolean;
+  typeCheckHostBindings?: boolean;
+}
+
+// Allowed values per option; `boolean` options accept true/false only
+const ALLOWED_OPTION_VALUES: Record<keyof RequestedCompilerOptions, readonly unknown[]> = {
+  target: Object.keys(TARGETS),
+  strict: [true, false],
+  useDefineForClassFields: [true, false],
+  compilationMode: ['full', 'partial'],
+  strictTemplates: [true, false],
+  strictInjectionParameters: [true, false],
+  typeCheckHostBindings: [true, false],
+};
+
+/**
+ * Validate the `options` object of a request against the whitelist
+ */
+export function parseCompilerOptions(raw: unknown): { options?: RequestedCompilerOptions; error?: string } {
+  if (raw === undefined || raw === null) {
+    return { options: {} };
+  }
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Options must be an object' };
+  }
+
+  const options: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    const allowedValues = ALLOWED_OPTION_VALUES[name as keyof RequestedCompilerOptions];
+    if (!allowedValues) {
+      return { error: `Unsupported compiler option: ${name}` };
+    }
+    if (!allowedValues.includes(value)) {
+      return { error: `Invalid value for compiler option ${name}: expected one of ${allowedValues.join(', ')}` };
+    }
+    options[name] = value;
+  }
+
+  return { options: options as RequestedCompilerOptions };
+}
+
+/**
+ * Merge requested overrides into the defaults used by the playground
+ */
+export function resolveCompilerOptions(requested: RequestedCompilerOptions): ts.CompilerOptions & NgcCompilerOptions {
+  const { target, compilationMode, strictTemplates, ...flags } = requested;
+  const resolved = {
+    ...sharedCompilerOptions,
+    ...angularCompilerOptions,
+    ...flags,
+  } as ts.CompilerOptions & NgcCompilerOptions;
+
+  if (target) {
+    resolved.target = TARGETS[target];
+  }
+  if (compilationMode) {
+    resolved.compilationMode = compilationMode;
+  }
+  if (strictTemplates !== undefined) {
+    resolved.strictTemplates = strictTemplates;
+    for (const flag of STRICT_TEMPLATE_FLAGS) {
+      resolved[flag] = strictTemplates;
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Stable string form of the requested options, used as part of the compilation cache key
+ */
+export function serializeCompilerOptions(requested: RequestedCompilerOptions): string {
+  return JSON.stringify(Object.keys(requested).sort().map(name => [name, requested[name as keyof RequestedCompilerOptions]]));
+}
@@ -0,0 +1,357 @@
+import type { NgtscProgram } from '@angular/compiler-cli';
+import * as ts from 'typescript';
+import { formatDiagnosticFilePath } from './compile-output';
+
+/**
+ * What Angular's analysis found out about a component or directive class, i.e. what ends up in
+ * its ɵɵdefineComponent/ɵɵdefineDirective call
+ */
+export interface ComponentMetadata {
+  // Project-relative path of the class's file, and the class name
+  file: string;
+  className: string;
+  kind: 'component' | 'directive';
+  selector: string | null;
+  standalone: boolean;
+  inputs: InputMetadata[];
+  outputs: OutputMetadata[];
+  hostBindings: HostBindingMetadata[];
+  queries: QueryMetadata[];
+  // Classes in the component's `imports` and `deferredImports`
+  imports: string[];
+  deferredImports: string[];
+  // e.g. "OnPush"; null for directives
+  changeDetection: string | null;
+  deferBlocks: DeferBlockMetadata[];
+}
+
+// `signal` members are declared with input(), output(), model(), viewChild() and so on rather
+// than with the @Input(), @Output(), @ViewChild()... decorators
+export type MemberFlavor = 'signal' | 'decorator';
+
+export interface InputMetadata {
+  // Class property, and the name templates bind to when aliased
+  name: string;
+  bindingName: string;
+  required: boolean;
+  flavor: MemberFlavor;
+}
+
+export interface OutputMetadata {
+  name: string;
+  bindingName: string;
+  flavor: MemberFlavor;
+}
+
+export interface HostBindingMetadata {
+  kind: 'attribute' | 'property' | 'listener';
+  // e.g. "class.active", "click" or "role"
+  name: string;
+  // Bound expression, listener call or attribute value
+  value: string;
+  // Declared in the decorator's `host` object, or with @HostBinding/@HostListener
+  declaredIn: 'host' | 'decorator';
+}
+
+export interface QueryMetadata {
+  name: string;
+  kind: 'viewChild' | 'viewChildren' | 'contentChild' | 'contentChildren';
+  // Source text of what is queried for, e.g. "'box'" or "ItemComponent"
+  predicate: string;
+  flavor: MemberFlavor;
+}
+
+export interface DeferBlockMetadata {
+  // Source text of the block's opening, e.g. "@defer (on viewport) {"
+  block: string;
+  // e.g. "on viewport", "when ready" or "prefetch on idle"; empty for the default (on idle)
+  triggers: string[];
+  placeholder: boolean;
+  loading: boolean;
+  error: boolean;
+  // Components and directives used in the block's content. Angular only loads the ones that are
+  // standalone and used nowhere else in the file lazily
+  dependencies: string[];
+}
+
+type NgCompiler = NgtscProgram['compiler'];
+type DirectiveMeta = Extract<ReturnType<NgCompiler['getMeta']>, { isComponent: boolean }>;
+type TemplateTypeChecker = ReturnType<NgCompiler['getTemplateTypeChecker']>;
+
+// The parts of @angular/compiler's template nodes read here. Nodes are told apart by their
+// fields, since class names don't survive minification of the worker bundle
+interface TemplateNode {
+  children?: TemplateNode[];
+  // Elements and <ng-template>s
+  attributes?: unknown[];
+  // @defer blocks
+  triggers?: Record<string, { sourceSpan?: SourceSpan }>;
+  prefetchTriggers?: Record<string, { sourceSpan?: SourceSpan }>;
+  hydrateTriggers?: Record<string, { sourceSpan?: SourceSpan }>;
+  placeholder?: TemplateNode | null;
+  loading?: TemplateNode | null;
+  error?: TemplateNode | null;
+  startSourceSpan?: SourceSpan;
+  // Branches of @if and @switch, and the @empty of @for
+  branches?: TemplateNode[];
+  cases?: TemplateNode[];
+  empty?: TemplateNode | null;
+}
+
+interface SourceSpan {
+  toString(): string;
+}
+
+const SIGNAL_OUTPUT_FUNCTIONS = ['output', 'outputFromObservable', 'model'];
+const QUERY_KINDS: ReadonlyArray<QueryMetadata['kind']> = ['viewChild', 'viewChildren', 'contentChild', 'contentChildren'];
+// ChangeDetectionStrategy values, for `changeDetection` set to a number
+const CHANGE_DETECTION_STRATEGIES = ['OnPush', 'Default'];
+
+/**
+ * Collect the metadata of every component and directive in the project, once the program has been
+ * analyzed. Defer blocks are read from the parsed templates, which needs the compiler options in
+ * TYPE_CHECK_BLOCK_COMPILER_OPTIONS. `tsApi` must be the TypeScript the program was created with.
+ */
+export function collectComponentMetadata(
+  ngProgram: NgtscProgram,
+  rootNames: readonly string[],
+  root: string,
+  tsApi: typeof ts = ts
+): ComponentMetadata[] {
+  const checker = ngProgram.compiler.getTemplateTypeChecker();
+  const tsProgram = ngProgram.getTsProgram();
+  const metadata: ComponentMetadata[] = [];
+
+  for (const fileName of rootNames) {
+    const sourceFile = tsProgram.getSourceFile(fileName);
+    const classes = sourceFile?.statements.filter(tsApi.isClassDeclaration) ?? [];
+
+    for (const declaration of classes) {
+      const meta = ngProgram.compiler.getMeta(declaration);
+      // Pipes have no selector, and classes without an Angular decorator no metadata at all
+      if (!meta || !('isComponent' in meta) || !declaration.name) {
+        continue;
+      }
+      const members = new Map(
+        declaration.members.flatMap(member => member.name && tsApi.isIdentifier(member.name) ? [[member.name.text, member] as const] : [])
+      );
+      const decoratorArgs = readDecoratorArgs(meta, tsApi);
+
+      metadata.push({
+        file: formatDiagnosticFilePath(fileName, root).replace(/^\//, ''),
+        className: declaration.name.text,
+        kind: meta.isComponent ? 'component' : 'directive',
+        selector: meta.selector,
+        standalone: meta.isStandalone,
+        inputs: meta.inputs.classPropertyNames.flatMap(name => {
+          const input = meta.inputs.getByClassPropertyName(name);
+          return input ? [{
+            name,
+            bindingName: input.bindingPropertyName,
+            required: input.required,
+            flavor: input.isSignal ? 'signal' : 'decorator',
+          } satisfies InputMetadata] : [];
+        }),
+        outputs: meta.outputs.classPropertyNames.flatMap(name => {
+          const output = meta.outputs.getByClassPropertyName(name);
+          const fn = calledFunction(members.get(name), tsApi);
+          return output ? [{
+            name,
+            bindingName: output.bindingPropertyName,
+            flavor: fn && SIGNAL_OUTPUT_FUNCTIONS.includes(fn.name) ? 'signal' : 'decorator',
+          } satisfies OutputMetadata] : [];
+        }),
+        hostBindings: [...readHostObject(decoratorArgs, tsApi), ...readHostDecorators(declaration, tsApi)],
+        queries: readQueries(declaration, tsApi),
+        imports: (meta.imports ?? []).map(referenceName),
+        deferredImports: (meta.deferredImports ?? []).map(referenceName),
+        changeDetection: meta.isComponent ? readChangeDetection(decoratorArgs, tsApi) : null,
+        deferBlocks: meta.isComponent ? readDeferBlocks(checker, declaration) : [],
+      });
+    }
+  }
+
+  return metadata;
+}
+
+// The object literal passed to @Component/@Directive, when there is one
+function readDecoratorArgs(meta: DirectiveMeta, tsApi: typeof ts): ts.ObjectLiteralExpression | null {
+  const call = meta.decorator?.expression;
+  const args = call && tsApi.isCallExpression(call) ? call.arguments[0] : undefined;
+  return args && tsApi.isObjectLiteralExpression(args) ? args : null;
+}
+
+function readProperty(object: ts.ObjectLiteralExpression | null, name: string, tsApi: typeof ts): ts.Expression | null {
+  const property = object?.properties.find(
+    (p): p is ts.PropertyAssignment => tsApi.isPropertyAssignment(p) && propertyName(p.name, tsApi) === name
+  );
+  return property?.initializer ?? null;
+}
+
+function readChangeDetection(decoratorArgs: ts.ObjectLiteralExpression | null, tsApi: typeof ts): string {
+  const value = readProperty(decoratorArgs, 'changeDetection', tsApi);
+  if (!value) {
+    return 'Default';
+  }
+  if (tsApi.isPropertyAccessExpression(value)) {
+    return value.name.text;
+  }
+  if (tsApi.isNumericLiteral(value)) {
+    return CHANGE_DETECTION_STRATEGIES[Number(value.text)] ?? value.text;
+  }
+  return value.getText();
+}
+
+// `host: { '[class.active]': 'isActive()', '(click)': 'toggle()', role: 'button' }`
+function readHostObject(decoratorArgs: ts.ObjectLiteralExpression | null, tsApi: typeof ts): HostBindingMetadata[] {
+  const host = readProperty(decoratorArgs, 'host', tsApi);
+  if (!host || !tsApi.isObjectLiteralExpression(host)) {
+    return [];
+  }
+
+  return host.properties.flatMap((property): HostBindingMetadata[] => {
+    const key = property.name && propertyName(property.name, tsApi);
+    if (!key || !tsApi.isPropertyAssignment(property)) {
+      return [];
+    }
+    const value = tsApi.isStringLiteralLike(property.initializer) ? property.initializer.text : property.initializer.getText();
+    const bracketed = /^([[(])(.*)[\])]$/.exec(key);
+    return [{
+      kind: !bracketed ? 'attribute' : bracketed[1] === '[' ? 'property' : 'listener',
+      name: bracketed ? bracketed[2] : key,
+      value,
+      declaredIn: 'host',
+    }];
+  });
+}
+
+// `@HostBinding('class.active') isActive` and `@HostListener('click', ['$event']) onClick(event)`
+function readHostDecorators(declaration: ts.ClassDeclaration, tsApi: typeof ts): HostBindingMetadata[] {
+  return declaration.members.flatMap(member => {
+    const memberName = member.name ? propertyName(member.name, tsApi) : null;
+    if (!memberName) {
+      return [];
+    }
+
+    return decoratorCalls(member, tsApi).flatMap(({ name, args }): HostBindingMetadata[] => {
+      const [target, listenerArgs] = args;
+      const targetName = target && tsApi.isStringLiteralLike(target) ? target.text : null;
+      if (name === 'HostBinding') {
+        return [{ kind: 'property', name: targetName ?? memberName, value: memberName, declaredIn: 'decorator' }];
+      }
+      if (name === 'HostListener' && targetName) {
+        const callArgs = listenerArgs && tsApi.isArrayLiteralExpression(listenerArgs)
+          ? listenerArgs.elements.map(arg => tsApi.isStringLiteralLike(arg) ? arg.text : arg.getText())
+          : [];
+        return [{ kind: 'listener', name: targetName, value: `${memberName}(${callArgs.join(', ')})`, declaredIn: 'decorator' }];
+      }
+      return [];
+    });
+  });
+}
+
+// `box = viewChild('box')` and `@ContentChildren(Item) items`
+function readQueries(declaration: ts.ClassDeclaration, tsApi: typeof ts): QueryMetadata[] {
+  return declaration.members.flatMap((member): QueryMetadata[] => {
+    const name = member.name ? propertyName(member.name, tsApi) : null;
+    if (!name) {
+      return [];
+    }
+
+    const fn = calledFunction(member, tsApi);
+    const signalKind = QUERY_KINDS.find(kind => kind === fn?.name);
+    if (fn && signalKind) {
+      return [{ name, kind: signalKind, predicate: fn.args[0]?.getText() ?? '', flavor: 'signal' }];
+    }
+
+    return decoratorCalls(member, tsApi).flatMap(({ name: decorator, args }): QueryMetadata[] => {
+      const kind = QUERY_KINDS.find(kind => kind === decorator.charAt(0).toLowerCase() + decorator.slice(1));
+      return kind ? [{ name, kind, predicate: args[0]?.getText() ?? '', flavor: 'decorator' }] : [];
+    });
+  });
+}
+
+// The defer blocks in the component's template, with what each one loads
+function readDeferBlocks(checker: TemplateTypeChecker, component: ts.ClassDeclaration): DeferBlockMetadata[] {
+  const blocks: DeferBlockMetadata[] = [];
+  const template = checker.getTemplate(component) as TemplateNode[] | null;
+
+  const visit = (nodes: Array<TemplateNode | null | undefined>) => {
+    for (const node of nodes) {
+      if (!node) {
+        continue;
+      }
+      if (node.triggers && node.startSourceSpan) {
+        blocks.push({
+          block: node.startSourceSpan.toString(),
+          triggers: [node.triggers, node.prefetchTriggers, node.hydrateTriggers].flatMap(triggers =>
+            Object.entries(triggers ?? {}).map(([name, trigger]) => trigger.sourceSpan?.toString() ?? name)
+          ),
+          placeholder: !!node.placeholder,
+          loading: !!node.loading,
+          error: !!node.error,
+          dependencies: usedDirectives(checker, component, node.children ?? []),
+        });
+      }
+      visit([...node.children ?? [], ...node.branches ?? [], ...node.cases ?? [], node.empty, node.placeholder, node.loading, node.error]);
+    }
+  };
+  visit(template ?? []);
+
+  return blocks;
+}
+
+// Names of the components and directives matched on elements in `nodes`, outside nested defer blocks
+function usedDirectives(checker: TemplateTypeChecker, component: ts.ClassDeclaration, nodes: TemplateNode[]): string[] {
+  const names = new Set<string>();
+
+  const visit = (nodes: Array<TemplateNode | null | undefined>) => {
+    for (const node of nodes) {
+      if (!node || node.triggers) {
+        continue;
+      }
+      if (node.attributes) {
+        const symbol = checker.getSymbolOfNode(node as Parameters<TemplateTypeChecker['getSymbolOfNode']>[0], component);
+        const directives = symbol && 'directives' in symbol ? symbol.directives : [];
+        for (const directive of directives) {
+          names.add(referenceName(directive.ref));
+        }
+      }
+      visit([...node.children ?? [], ...node.branches ?? [], ...node.cases ?? [], node.empty]);
+    }
+  };
+  visit(nodes);
+
+  return [...names];
+}
+
+// Name and arguments of the function a property is initialized with, e.g. `input.required<string>()`
+function calledFunction(member: ts.ClassElement | undefined, tsApi: typeof ts): { name: string; args: readonly ts.Expression[] } | null {
+  const initializer = member && tsApi.isPropertyDeclaration(member) ? member.initializer : undefined;
+  if (!initializer || !tsApi.isCallExpression(initializer)) {
+    return null;
+  }
+  let callee = initializer.expression;
+  // viewChild.required(...) and model.required(...)
+  if (tsApi.isPropertyAccessExpression(callee) && callee.name.text === 'required') {
+    callee = callee.expression;
+  }
+  return tsApi.isIdentifier(callee) ? { name: callee.text, args: initializer.arguments } : null;
+}
+
+function decoratorCalls(node: ts.Node, tsApi: typeof ts): Array<{ name: string; args: readonly ts.Expression[] }> {
+  const decorators = tsApi.canHaveDecorators(node) ? tsApi.getDecorators(node) ?? [] : [];
+  return decorators.flatMap(({ expression }) =>
+    tsApi.isCallExpression(expression) && tsApi.isIdentifier(expression.expression)
+      ? [{ name: expression.expression.text, args: expression.arguments }]
+      : []
+  );
+}
+
+function propertyName(name: ts.PropertyName, tsApi: typeof ts): string | null {
+  return tsApi.isIdentifier(name) || tsApi.isStringLiteralLike(name) || tsApi.isPrivateIdentifier(name) ? name.text : null;
+}
+
+function referenceName(ref: DirectiveMeta['ref']): string {
+  return ref.debugName ?? ref.node.name.text;
+}
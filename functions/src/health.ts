@@ -0,0 +1,46 @@
+import * as crypto from 'crypto';
+import type { BoundedCacheStats } from './bounded-cache';
+import { DEFAULT_ANGULAR_VERSION, getAngularToolchain, listAngularVersions } from './angular-versions';
+import { getCacheStats, getPreWarmStatus } from './cache-manager';
+import { getCompilationMetrics } from './compile-metrics';
+
+// Caches and metrics are per instance, so reports say which instance they describe
+const INSTANCE_ID = crypto.randomUUID();
+const INSTANCE_STARTED_AT = new Date();
+
+/**
+ * Snapshot of this instance for dashboards and emulator checks: versions, uptime, pre-warming,
+ * cache usage and recent compile latency
+ */
+export function buildHealthReport() {
+  const { caches, versionCaches, compilationCacheLayers } = getCacheStats();
+  const preWarm = getPreWarmStatus();
+
+  return {
+    // Degraded while pre-warming is still running or couldn't resolve a module
+    status: preWarm.state === 'done' && preWarm.failedModules.length === 0 ? 'ok' : 'degraded',
+    instance: {
+      id: INSTANCE_ID,
+      startedAt: INSTANCE_STARTED_AT.toISOString(),
+      uptimeSeconds: Math.round(process.uptime()),
+      heapUsedBytes: process.memoryUsage().heapUsed,
+    },
+    versions: { ...getAngularToolchain(DEFAULT_ANGULAR_VERSION).packageVersions, node: process.version },
+    angularVersions: listAngularVersions(),
+    preWarm,
+    compilations: getCompilationMetrics(),
+    compilationCacheLayers,
+    caches: withHitRates(caches),
+    versionCaches: Object.fromEntries(
+      Object.entries(versionCaches).map(([version, stats]) => [version, withHitRates(stats)])
+    ),
+  };
+}
+
+function withHitRates(caches: Record<string, BoundedCacheStats>) {
+  return Object.fromEntries(Object.entries(caches).map(([name, stats]) => [name, { ...stats, hitRate: hitRate(stats) }]));
+}
+
+function hitRate({ hits, misses }: BoundedCacheStats): number | null {
+  return hits + misses > 0 ? hits / (hits + misses) : null;
+}
@@ -8,4 +8,4 @@ setGlobalOptions({
   minInstances: 0, // No always-on instances to minimize cost
 });
 
-export { compileAngular } from "./angular-compiler";
\ No newline at end of file
+export { compileAngular, compileAngularBatch } from "./angular-compiler";
\ No newline at end of file
@@ -0,0 +1,409 @@
+import * as ts from 'typescript';
+
+/**
+ * A short explanation of a piece of compiled output, for people learning what Ivy generates
+ */
+export interface OutputAnnotation {
+  // Offsets in the final output of the file: an instruction's name or a field of ɵɵdefineComponent
+  start: number;
+  end: number;
+  // What is explained, e.g. "ɵɵadvance" or "decls"
+  label: string;
+  explanation: string;
+}
+
+// Arguments of an instruction call: the value of string literals, the source text of anything else
+type Explanation = string | ((args: string[]) => string);
+
+// Attribute markers in `consts` arrays, see AttributeMarker in @angular/core
+const ATTRIBUTE_MARKERS: Record<number, string> = {
+  0: 'namespaced attributes',
+  1: 'classes',
+  2: 'styles',
+  3: 'bindings',
+  4: 'template attributes',
+  5: 'ngProjectAs',
+  6: 'i18n attributes',
+};
+
+const slot = (args: string[]) => `slot ${args[0] ?? 0}`;
+const steps = (value: string | undefined, unit: string) => `${value ?? 1} ${unit}${(value ?? '1') === '1' ? '' : 's'}`;
+// Elements refer to their static attributes and binding names, then local references, by consts index
+const constsOf = (attributes: string | undefined, references: string | undefined) =>
+  (attributes !== undefined && /^\d+$/.test(attributes) ? ` Its attributes are consts[${attributes}].` : '') +
+  (references !== undefined && /^\d+$/.test(references) ? ` Its local references are consts[${references}].` : '');
+const embeddedView = (args: string[], what: string) =>
+  `Creation: declares ${what} in ${slot(args)}. Its content is rendered by ${args[1]}, which creates ${steps(args[2], 'node')} (decls) and has ${steps(args[3], 'binding slot')} (vars).`;
+
+const INSTRUCTIONS: Record<string, Explanation> = {
+  // Definitions and dependency injection
+  ɵɵdefineComponent: 'Defines the component for the runtime: its selectors, inputs and outputs, and the template function that creates and updates its view.',
+  ɵɵdefineDirective: 'Defines the directive for the runtime: its selectors, inputs, outputs and host bindings.',
+  ɵɵdefinePipe: 'Defines the pipe for the runtime: its name and whether it is pure.',
+  ɵɵdefineInjectable: 'Makes the class injectable: records how to create it and which injector provides it.',
+  ɵɵdefineNgModule: 'Defines the NgModule for the runtime.',
+  ɵɵdefineInjector: 'Defines the providers and imports of the NgModule\'s injector.',
+  ɵɵdirectiveInject: args => `Injects ${args[0]} for the constructor; generated in factories of components and directives.`,
+  ɵɵinject: args => `Injects ${args[0]} for the constructor of a service.`,
+  ɵɵinvalidFactory: 'Factory of a class that cannot be created by dependency injection (e.g. its constructor parameters can\'t be resolved).',
+  ɵɵgetInheritedFactory: 'Reuses the factory of the parent class, for classes without a constructor of their own.',
+  ɵɵInheritDefinitionFeature: 'Merges the inputs, outputs and host bindings of the parent class into this definition.',
+  ɵɵNgOnChangesFeature: 'Calls ngOnChanges with the changed inputs before each check.',
+  ɵɵProvidersFeature: 'Adds the providers and viewProviders of the component or directive.',
+  ɵɵHostDirectivesFeature: 'Applies the hostDirectives of the component or directive.',
+  ɵɵStandaloneFeature: 'Sets up the injector of a standalone component.',
+  ɵɵngDeclareComponent: 'Partial compilation: the component\'s metadata, turned into ɵɵdefineComponent by the Angular linker when an application is built.',
+  ɵɵngDeclareDirective: 'Partial compilation: the directive\'s metadata, turned into ɵɵdefineDirective by the Angular linker.',
+  ɵɵngDeclarePipe: 'Partial compilation: the pipe\'s metadata, turned into ɵɵdefinePipe by the Angular linker.',
+  ɵɵngDeclareFactory: 'Partial compilation: describes the constructor dependencies; the Angular linker turns it into a factory.',
+  ɵɵngDeclareInjectable: 'Partial compilation: turned into ɵɵdefineInjectable by the Angular linker.',
+  ɵɵngDeclareNgModule: 'Partial compilation: turned into ɵɵdefineNgModule by the Angular linker.',
+  ɵɵngDeclareInjector: 'Partial compilation: turned into ɵɵdefineInjector by the Angular linker.',
+  ɵɵngDeclareClassMetadata: 'Partial compilation: the decorator metadata, kept for tests and tools in dev mode.',
+  ɵsetClassMetadata: 'Dev mode only: keeps the decorator metadata so TestBed can override and recompile the class.',
+  ɵsetClassDebugInfo: 'Dev mode only: records the class name and location shown in error messages and DevTools.',
+
+  // Creation mode (rf & 1): runs once to build the view
+  ɵɵelementStart: args => `Creation: creates the <${args[1]}> element in ${slot(args)}; the nodes that follow are its children until ɵɵelementEnd.${constsOf(args[2], args[3])}`,
+  ɵɵelementEnd: 'Creation: closes the element opened by the matching ɵɵelementStart.',
+  ɵɵelement: args => `Creation: creates the <${args[1]}> element without children in ${slot(args)} (ɵɵelementStart and ɵɵelementEnd in one).${constsOf(args[2], args[3])}`,
+  ɵɵdomElementStart: args => `Creation: creates the <${args[1]}> element in ${slot(args)}, like ɵɵelementStart but skipping directive matching because no directive can apply to it.${constsOf(args[2], args[3])}`,
+  ɵɵdomElementEnd: 'Creation: closes the element opened by the matching ɵɵdomElementStart.',
+  ɵɵdomElement: args => `Creation: creates the <${args[1]}> element without children or directives in ${slot(args)}.${constsOf(args[2], args[3])}`,
+  ɵɵelementContainerStart: args => `Creation: starts an <ng-container> in ${slot(args)}; it groups the following nodes without adding an element to the DOM.`,
+  ɵɵelementContainerEnd: 'Creation: closes the <ng-container> opened by ɵɵelementContainerStart.',
+  ɵɵelementContainer: args => `Creation: an empty <ng-container> in ${slot(args)}, e.g. a host for ngTemplateOutlet.`,
+  ɵɵdomElementContainerStart: args => `Creation: starts an <ng-container> without directives in ${slot(args)}.`,
+  ɵɵdomElementContainerEnd: 'Creation: closes the <ng-container> opened by ɵɵdomElementContainerStart.',
+  ɵɵdomElementContainer: args => `Creation: an empty <ng-container> without directives in ${slot(args)}.`,
+  ɵɵtext: args => args[1] === undefined
+    ? `Creation: creates a text node in ${slot(args)}; its text is set by a ɵɵtextInterpolate instruction in update mode.`
+    : `Creation: creates the static text node "${args[1]}" in ${slot(args)}.`,
+  ɵɵtemplate: args => embeddedView(args, 'an embedded template (<ng-template>, a structural directive or a control flow block)'),
+  ɵɵdomTemplate: args => embeddedView(args, 'an embedded template without directives'),
+  ɵɵconditionalCreate: args => embeddedView(args, 'the first branch of an @if or @switch block (further branches are chained calls)'),
+  ɵɵconditionalBranchCreate: args => embeddedView(args, 'another branch of an @if or @switch block'),
+  ɵɵrepeaterCreate: args => `Creation: declares an @for block in ${slot(args)}. Each item is rendered by ${args[1]}, which creates ${steps(args[2], 'node')} and has ${steps(args[3], 'binding slot')}; the track function decides which rows are reused.`,
+  ɵɵrepeaterTrackByIdentity: 'Track function for `track item`: rows are matched by the item itself.',
+  ɵɵrepeaterTrackByIndex: 'Track function for `track $index`: rows are matched by position.',
+  ɵɵlistener: args => `Creation: listens to "${args[0]}" on the current element (or output of a directive on it) and runs the handler in the template's context.`,
+  ɵɵdomListener: args => `Creation: listens to the "${args[0]}" DOM event of the current element; no directive outputs can match it.`,
+  ɵɵtwoWayListener: args => `Creation: the event half of [(${args[0]})], writing the emitted value back to the bound expression.`,
+  ɵɵsyntheticHostListener: args => `Creation: listens to the animation event "${args[0]}" on the host element.`,
+  ɵɵprojectionDef: 'Creation: declares the <ng-content> slots of the component, so child nodes can be distributed to them.',
+  ɵɵprojection: args => `Creation: inserts the content projected into <ng-content> slot ${args[1] ?? 0} at ${slot(args)}.`,
+  ɵɵpipe: args => `Creation: instantiates the "${args[1]}" pipe in ${slot(args)}.`,
+  ɵɵdeclareLet: args => `Creation: reserves ${slot(args)} for an @let declaration.`,
+  ɵɵdefer: args => `Creation: declares a @defer block in ${slot(args)}; its dependencies are loaded lazily when a trigger fires.`,
+  ɵɵdeferOnIdle: '@defer trigger: loads and renders the block once the browser is idle.',
+  ɵɵdeferOnImmediate: '@defer trigger: loads and renders the block right after the view is created.',
+  ɵɵdeferOnTimer: args => `@defer trigger: loads and renders the block after ${args[0]}ms.`,
+  ɵɵdeferOnHover: '@defer trigger: loads and renders the block when the trigger element is hovered.',
+  ɵɵdeferOnInteraction: '@defer trigger: loads and renders the block when the trigger element is clicked or typed into.',
+  ɵɵdeferOnViewport: '@defer trigger: loads and renders the block when the trigger element scrolls into view.',
+  ɵɵdeferWhen: '@defer trigger: loads and renders the block once the condition is true.',
+  ɵɵdeferPrefetchOnIdle: '@defer prefetch trigger: loads the dependencies once the browser is idle, without rendering.',
+  ɵɵdeferPrefetchOnImmediate: '@defer prefetch trigger: loads the dependencies right away, without rendering.',
+  ɵɵdeferPrefetchOnTimer: '@defer prefetch trigger: loads the dependencies after a delay, without rendering.',
+  ɵɵdeferPrefetchOnHover: '@defer prefetch trigger: loads the dependencies on hover, without rendering.',
+  ɵɵdeferPrefetchOnInteraction: '@defer prefetch trigger: loads the dependencies on interaction, without rendering.',
+  ɵɵdeferPrefetchOnViewport: '@defer prefetch trigger: loads the dependencies when the trigger element scrolls into view, without rendering.',
+  ɵɵdeferPrefetchWhen: '@defer prefetch trigger: loads the dependencies once the condition is true, without rendering.',
+  ɵɵdeferEnableTimerScheduling: 'Enables the minimum/after timings of @placeholder and @loading blocks.',
+  ɵɵnamespaceSVG: 'Creation: the following elements are created in the SVG namespace.',
+  ɵɵnamespaceMathML: 'Creation: the following elements are created in the MathML namespace.',
+  ɵɵnamespaceHTML: 'Creation: the following elements are created as HTML again.',
+  ɵɵi18nStart: args => `Creation: starts the translated block in ${slot(args)}; its text and elements come from the translation.`,
+  ɵɵi18nEnd: 'Creation: ends the translated block.',
+  ɵɵi18n: args => `Creation: a translated block in ${slot(args)} without element children.`,
+  ɵɵi18nAttributes: 'Creation: translates the i18n-* attributes of the current element.',
+  ɵɵgetCurrentView: 'Captures the current embedded view, so a listener inside it can restore it with ɵɵrestoreView.',
+
+  // Update mode (rf & 2): runs on every change detection
+  ɵɵadvance: args => `Update: moves ${steps(args[0], 'slot')} forward to the node the next bindings apply to; nodes without bindings are skipped.`,
+  ɵɵproperty: args => `Update: sets the "${args[0]}" property (or a directive input) of the current element when the value changed.`,
+  ɵɵdomProperty: args => `Update: sets the "${args[0]}" DOM property of the current element when the value changed.`,
+  ɵɵhostProperty: args => `Update: sets the "${args[0]}" property of the host element when the value changed.`,
+  ɵɵsyntheticHostProperty: args => `Update: sets the animation "${args[0]}" on the host element.`,
+  ɵɵattribute: args => `Update: sets the "${args[0]}" attribute ([attr.${args[0]}]) when the value changed; null removes it.`,
+  ɵɵclassProp: args => `Update: adds or removes the "${args[0]}" class ([class.${args[0]}]) depending on the value.`,
+  ɵɵstyleProp: args => `Update: sets the "${args[0]}" style ([style.${args[0]}]) when the value changed.`,
+  ɵɵclassMap: 'Update: applies a [class] binding (string, array or object of class names).',
+  ɵɵstyleMap: 'Update: applies a [style] binding (string or object of styles).',
+  ɵɵtextInterpolate: 'Update: sets the text of the current text node to the value of {{ }} when it changed.',
+  ɵɵinterpolate: 'Update: converts the value of a bound interpolation to a string.',
+  ɵɵconditional: 'Update: shows the branch of the @if or @switch block whose slot the expression returns (-1 shows none) and removes the previous one.',
+  ɵɵrepeater: 'Update: reconciles the rows of the @for block with the collection, moving, adding and removing rows by their track key.',
+  ɵɵtwoWayProperty: args => `Update: the property half of [(${args[0]})].`,
+  ɵɵtwoWayBindingSet: 'Writes the emitted value of a two-way binding to a signal, or returns false so the assignment is done by the template.',
+  ɵɵnextContext: args => `Gets the context of the template ${steps(args[0], 'level')} up, e.g. the component from inside an @for row.`,
+  ɵɵreference: args => `Reads the local reference (#ref) stored in ${slot(args)}.`,
+  ɵɵrestoreView: 'Makes the captured embedded view current again, so a listener can read its context.',
+  ɵɵresetView: 'Returns the listener\'s result after resetting the view that ɵɵrestoreView changed.',
+  ɵɵcomponentInstance: 'Gets the component instance from inside an embedded view, e.g. in a listener.',
+  ɵɵstoreLet: 'Update: stores the value of an @let declaration so later bindings can read it.',
+  ɵɵreadContextLet: args => `Reads the @let value stored in ${slot(args)}.`,
+  ɵɵpipeBind: args => `Update: calls transform() of the pipe in ${slot(args)}; pure pipes only when an argument changed.`,
+  ɵɵpureFunction: 'Creates an object or array literal of the template only when one of its values changed, so bindings keep getting the same instance.',
+  ɵɵi18nExp: 'Update: passes a value of an expression in the translated block.',
+  ɵɵi18nApply: 'Update: applies the values passed with ɵɵi18nExp to the translated block.',
+  ɵɵsanitizeUrl: 'Sanitizes a bound URL, so it can\'t run script (e.g. javascript: links).',
+  ɵɵsanitizeResourceUrl: 'Only allows resource URLs (e.g. script src) that were explicitly trusted.',
+  ɵɵsanitizeHtml: 'Sanitizes bound HTML, removing anything that could run script.',
+  ɵɵsanitizeStyle: 'Sanitizes a bound style value.',
+  ɵɵsanitizeScript: 'Only allows scripts that were explicitly trusted.',
+  ɵɵsanitizeUrlOrResourceUrl: 'Sanitizes a URL bound to a property that may be a resource URL, depending on the element.',
+
+  // Queries
+  ɵɵviewQuery: 'Declares a @ViewChild/@ViewChildren query of the component\'s template.',
+  ɵɵviewQuerySignal: 'Declares a viewChild()/viewChildren() signal query.',
+  ɵɵcontentQuery: 'Declares a @ContentChild/@ContentChildren query of the projected content.',
+  ɵɵcontentQuerySignal: 'Declares a contentChild()/contentChildren() signal query.',
+  ɵɵqueryRefresh: 'Updates the results of a decorator query; returns true when they changed.',
+  ɵɵloadQuery: 'Reads the current results of a decorator query.',
+  ɵɵqueryAdvance: 'Moves to the next signal query, whose results are updated lazily.',
+
+  // Before Angular 20 interpolated bindings had instructions of their own
+  ɵɵpropertyInterpolate: args => `Update: sets the "${args[0]}" property to an interpolated string when one of its values changed.`,
+  ɵɵattributeInterpolate: args => `Update: sets the "${args[0]}" attribute to an interpolated string when one of its values changed.`,
+  ɵɵclassMapInterpolate: 'Update: applies an interpolated class attribute.',
+  ɵɵstyleMapInterpolate: 'Update: applies an interpolated style attribute.',
+  ɵɵstylePropInterpolate: args => `Update: sets the "${args[0]}" style to an interpolated string.`,
+};
+
+// Take the consts index of their attributes, then of their local references, as 3rd and 4th argument
+const ELEMENT_INSTRUCTIONS = [
+  'ɵɵelementStart',
+  'ɵɵelement',
+  'ɵɵdomElementStart',
+  'ɵɵdomElement',
+  'ɵɵelementContainerStart',
+  'ɵɵelementContainer',
+  'ɵɵdomElementContainerStart',
+  'ɵɵdomElementContainer',
+];
+
+// Creation instructions whose first argument is the slot of the node they create, and what that node is
+const SLOT_CONTENTS: Record<string, (args: string[]) => string> = {
+  ɵɵelementStart: args => `<${args[1]}>`,
+  ɵɵelement: args => `<${args[1]}>`,
+  ɵɵdomElementStart: args => `<${args[1]}>`,
+  ɵɵdomElement: args => `<${args[1]}>`,
+  ɵɵelementContainerStart: () => '<ng-container>',
+  ɵɵelementContainer: () => '<ng-container>',
+  ɵɵdomElementContainerStart: () => '<ng-container>',
+  ɵɵdomElementContainer: () => '<ng-container>',
+  ɵɵtext: args => args[1] === undefined ? 'text node (interpolated)' : `text node "${args[1]}"`,
+  ɵɵtemplate: args => `embedded template ${args[1]}`,
+  ɵɵdomTemplate: args => `embedded template ${args[1]}`,
+  ɵɵconditionalCreate: args => `@if/@switch branch ${args[1]}`,
+  ɵɵconditionalBranchCreate: args => `@if/@switch branch ${args[1]}`,
+  ɵɵrepeaterCreate: args => `@for block ${args[1]}`,
+  ɵɵprojection: () => '<ng-content>',
+  ɵɵpipe: args => `"${args[1]}" pipe`,
+  ɵɵdeclareLet: () => '@let declaration',
+  ɵɵdefer: () => '@defer block',
+  ɵɵi18nStart: () => 'translated block',
+  ɵɵi18n: () => 'translated block',
+};
+
+/**
+ * Explain every Ivy instruction in a file's final output, called or passed on (e.g. a track
+ * function), plus the decls, vars and consts of each ɵɵdefineComponent. Works on formatted and
+ * minified output alike.
+ */
+export function annotateInstructions(code: string): OutputAnnotation[] {
+  const sourceFile = ts.createSourceFile('output.js', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.JS);
+  const annotations: OutputAnnotation[] = [];
+
+  const visit = (node: ts.Node) => {
+    const name = ts.isPropertyAccessExpression(node) || ts.isIdentifier(node) ? getInstructionName(node) : undefined;
+    if (name) {
+      const call = ts.isCallExpression(node.parent) && node.parent.expression === node ? node.parent : undefined;
+      const explanation = explain(name.text, call && readArguments(call, sourceFile));
+      if (explanation) {
+        annotations.push({ start: name.getStart(sourceFile), end: name.getEnd(), label: name.text, explanation });
+      }
+      if (name.text === 'ɵɵdefineComponent' && call?.arguments[0] && ts.isObjectLiteralExpression(call.arguments[0])) {
+        annotations.push(...annotateComponentDefinition(call.arguments[0], sourceFile));
+      }
+      // The name of a property access is an identifier too
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return annotations.sort((a, b) => a.start - b.start);
+}
+
+// `ɵɵtext` in `i0.ɵɵtext(...)`; the namespace may be renamed by a minifier
+function getInstructionName(expression: ts.Expression): ts.MemberName | ts.Identifier | undefined {
+  const name = ts.isPropertyAccessExpression(expression) ? expression.name : ts.isIdentifier(expression) ? expression : undefined;
+  return name && name.text.startsWith('ɵ') ? name : undefined;
+}
+
+// `args` is undefined for instructions that are referenced rather than called
+function explain(instruction: string, args: string[] | undefined): string | undefined {
+  // Numbered variants share an explanation, e.g. ɵɵtextInterpolate1 or ɵɵpureFunctionV
+  const explanation = INSTRUCTIONS[instruction] ?? INSTRUCTIONS[instruction.replace(/(?:\d+|V)$/, '')];
+  if (typeof explanation !== 'function') {
+    return explanation;
+  }
+  return args && explanation(args);
+}
+
+function readArguments(call: ts.CallExpression, sourceFile: ts.SourceFile): string[] {
+  return call.arguments.map(arg => ts.isStringLiteralLike(arg) ? arg.text : arg.getText(sourceFile));
+}
+
+function annotateComponentDefinition(definition: ts.ObjectLiteralExpression, sourceFile: ts.SourceFile): OutputAnnotation[] {
+  const fields = new Map<string, ts.PropertyAssignment>();
+  for (const property of definition.properties) {
+    if (ts.isPropertyAssignment(property) && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) {
+      fields.set(property.name.text, property);
+    }
+  }
+  const annotate = (label: string, explanation: string): OutputAnnotation => {
+    const { name } = fields.get(label)!;
+    return { start: name.getStart(sourceFile), end: name.getEnd(), label, explanation };
+  };
+
+  const annotations: OutputAnnotation[] = [];
+  const decls = fields.get('decls');
+  if (decls) {
+    const template = fields.get('template')?.initializer;
+    const consts = fields.get('consts')?.initializer;
+    annotations.push(annotate('decls', explainDecls(decls.initializer.getText(sourceFile), template, consts, sourceFile)));
+  }
+  const vars = fields.get('vars');
+  if (vars) {
+    const count = vars.initializer.getText(sourceFile);
+    annotations.push(annotate('vars', [
+      `${steps(count, 'binding slot')} after the nodes in the view's data array.`,
+      'Each property, attribute, class, style and text binding keeps its previous value in one (an interpolation one per expression), and pipes and pure functions keep their arguments and result, so change detection only updates what changed.',
+    ].join('\n')));
+  }
+  const consts = fields.get('consts');
+  if (consts) {
+    annotations.push(annotate('consts', explainConsts(consts.initializer, sourceFile)));
+  }
+  return annotations;
+}
+
+function explainDecls(
+  count: string,
+  template: ts.Expression | undefined,
+  consts: ts.Expression | undefined,
+  sourceFile: ts.SourceFile
+): string {
+  const lines = [
+    `The template creates ${steps(count, 'node')}: the view reserves a slot for each in its data array, and instructions refer to them by slot index.`,
+  ];
+  const slots = template && (ts.isFunctionExpression(template) || ts.isArrowFunction(template))
+    ? findCreatedSlots(template.body, consts, sourceFile)
+    : [];
+  lines.push(...slots.map(({ index, content }) => `${index}: ${content}`));
+  if (slots.some(({ content }) => content.startsWith('@for') || content === '@defer block')) {
+    lines.push('@for and @defer blocks use the slots after them for their own bookkeeping.');
+  }
+  return lines.join('\n');
+}
+
+// Slots filled by the creation instructions of a template function, not counting embedded templates
+function findCreatedSlots(
+  body: ts.Node,
+  consts: ts.Expression | undefined,
+  sourceFile: ts.SourceFile
+): Array<{ index: number; content: string }> {
+  const slots: Array<{ index: number; content: string }> = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isFunctionLike(node)) {
+      return;
+    }
+    ts.forEachChild(node, visit);
+    if (!ts.isCallExpression(node)) {
+      return;
+    }
+    // Angular 20 chains repeated instructions: ɵɵconditionalCreate(0, ...)(1, ...)
+    let callee: ts.Expression = node.expression;
+    while (ts.isCallExpression(callee)) {
+      callee = callee.expression;
+    }
+    const name = getInstructionName(callee);
+    const describe = name && SLOT_CONTENTS[name.text];
+    const args = readArguments(node, sourceFile);
+    if (describe && /^\d+$/.test(args[0] ?? '')) {
+      const index = Number(args[0]);
+      slots.push({ index, content: describe(args) });
+      // The local references of an element take the slots right after it
+      const references = ELEMENT_INSTRUCTIONS.includes(name.text) ? readLocalReferences(consts, args[3]) : [];
+      references.forEach((reference, i) => slots.push({ index: index + 1 + i, content: `local reference #${reference}` }));
+    }
+  };
+  visit(body);
+
+  return slots.sort((a, b) => a.index - b.index);
+}
+
+// Names in the consts entry of an element's local references: name, exported-as pairs
+function readLocalReferences(consts: ts.Expression | undefined, constsIndex: string | undefined): string[] {
+  const entry = consts && ts.isArrayLiteralExpression(consts) && /^\d+$/.test(constsIndex ?? '')
+    ? consts.elements[Number(constsIndex)]
+    : undefined;
+  if (!entry || !ts.isArrayLiteralExpression(entry)) {
+    return [];
+  }
+  return entry.elements.filter((_, i) => i % 2 === 0).filter(ts.isStringLiteralLike).map(name => name.text);
+}
+
+function explainConsts(consts: ts.Expression, sourceFile: ts.SourceFile): string {
+  const lines = [
+    'Static attributes, local references and binding names of the template\'s elements; creation instructions refer to them by index, and directive matching reads them.',
+  ];
+  if (!ts.isArrayLiteralExpression(consts)) {
+    // i18n templates compute their consts, since the attributes depend on the locale
+    lines.push('Computed when the component is first created.');
+    return lines.join('\n');
+  }
+  consts.elements.forEach((element, index) => {
+    lines.push(`${index}: ${ts.isArrayLiteralExpression(element) ? describeAttributes(element) : element.getText(sourceFile)}`);
+  });
+  return lines.join('\n');
+}
+
+// Plain name/value pairs come first, then groups introduced by an attribute marker
+function describeAttributes(attributes: ts.ArrayLiteralExpression): string {
+  const groups: string[] = [];
+  let marker: string | null = null;
+  let values: string[] = [];
+  const flush = () => {
+    if (values.length > 0) {
+      groups.push(marker ? `${marker}: ${values.join(' ')}` : values.join(' '));
+    }
+    values = [];
+  };
+
+  const { elements } = attributes;
+  for (let i = 0; i < elements.length; i++) {
+    const element = elements[i];
+    if (ts.isNumericLiteral(element)) {
+      flush();
+      marker = ATTRIBUTE_MARKERS[Number(element.text)] ?? `marker ${element.text}`;
+    } else if (!ts.isStringLiteralLike(element)) {
+      values.push('…');
+    } else if (marker === null || marker === 'styles') {
+      // name, value pairs; local references have an empty value
+      const value = elements[i + 1];
+      const text = value && ts.isStringLiteralLike(value) ? value.text : '';
+      values.push(text ? `${element.text}="${text}"` : element.text);
+      i++;
+    } else {
+      values.push(element.text);
+    }
+  }
+  flush();
+
+  return groups.join('; ') || '(empty)';
+}
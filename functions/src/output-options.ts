@@ -0,0 +1,78 @@
+/**
+ * How the emitted JavaScript is turned into the output shown to the user. By default dev-mode
+ * metadata blocks are stripped and the result is formatted with prettier.
+ */
+export interface OutputOptions {
+  // Keep the ɵsetClassMetadata/ɵsetClassDebugInfo IIFEs instead of stripping them
+  keepDevModeBlocks?: boolean;
+  // false returns the text exactly as emitted (minus the source map comment)
+  format?: boolean;
+  // Production-style output: minified with terser and `ngDevMode` set to false, which drops
+  // dev-mode code regardless of `keepDevModeBlocks`; never formatted
+  minify?: boolean;
+  // Also return the type-check block generated for each component (see type-check-blocks.ts)
+  typeCheckBlocks?: boolean;
+  // Also return explanations of the Ivy instructions in the output (see instruction-annotations.ts)
+  annotations?: boolean;
+  // Also return what Angular's analysis found out about each component (see component-metadata.ts)
+  componentMetadata?: boolean;
+}
+
+const ALLOWED_OUTPUT_OPTIONS: ReadonlyArray<keyof OutputOptions> = [
+  'keepDevModeBlocks',
+  'format',
+  'minify',
+  'typeCheckBlocks',
+  'annotations',
+  'componentMetadata',
+];
+
+/**
+ * Validate the `output` object of a request; every option is a boolean
+ */
+export function parseOutputOptions(raw: unknown): { options?: OutputOptions; error?: string } {
+  if (raw === undefined || raw === null) {
+    return { options: {} };
+  }
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Output options must be an object' };
+  }
+
+  const options: Record<string, boolean> = {};
+  for (const [name, value] of Object.entries(raw)) {
+    if (!ALLOWED_OUTPUT_OPTIONS.includes(name as keyof OutputOptions)) {
+      return { error: `Unsupported output option: ${name}` };
+    }
+    if (typeof value !== 'boolean') {
+      return { error: `Invalid value for output option ${name}: expected true or false` };
+    }
+    options[name] = value;
+  }
+
+  return { options };
+}
+
+/**
+ * Stable string form of the options that change the output, used as part of the compilation cache key
+ */
+export function serializeOutputOptions({
+  keepDevModeBlocks = false,
+  format = true,
+  minify = false,
+  typeCheckBlocks = false,
+  annotations = false,
+  componentMetadata = false,
+}: OutputOptions): string {
+  // Minified output ignores the other presentation options
+  return minify
+    ? JSON.stringify({ minify, typeCheckBlocks, annotations, componentMetadata })
+    : JSON.stringify({ keepDevModeBlocks, format, typeCheckBlocks, annotations, componentMetadata });
+}
+
+// Globals Angular's production builds define, so terser drops the code guarded by them
+export const PRODUCTION_GLOBAL_DEFS = {
+  ngDevMode: false,
+  ngI18nClosureMode: false,
+  ngJitMode: false,
+};
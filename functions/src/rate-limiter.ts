@@ -0,0 +1,54 @@
+import { BoundedCache } from './bounded-cache';
+
+export interface TokenBucketOptions {
+  // Requests a client can make in a burst
+  capacity: number;
+  // Tokens added back per second, up to `capacity`
+  refillPerSecond: number;
+  // Clients tracked at once; the least recently seen are forgotten (and start again with a full bucket)
+  maxClients?: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // Whole tokens left after this request
+  remaining: number;
+  // Seconds until the next token, when the request was refused
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token bucket per client key. Buckets live in this instance's memory, so each instance
+ * enforces the limits on its own.
+ */
+export class TokenBucketRateLimiter {
+  readonly #options: TokenBucketOptions;
+  readonly #buckets: BoundedCache<string, Bucket>;
+
+  constructor(options: TokenBucketOptions) {
+    this.#options = options;
+    this.#buckets = new BoundedCache({ maxEntries: options.maxClients ?? 10_000 });
+  }
+
+  take(key: string, now = Date.now()): RateLimitDecision {
+    const { capacity, refillPerSecond } = this.#options;
+    const bucket = this.#buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+    const elapsedSeconds = Math.max(0, now - bucket.updatedAt) / 1000;
+    const tokens = Math.min(capacity, bucket.tokens + elapsedSeconds * refillPerSecond);
+
+    const allowed = tokens >= 1;
+    const remainingTokens = allowed ? tokens - 1 : tokens;
+    this.#buckets.set(key, { tokens: remainingTokens, updatedAt: now });
+
+    return {
+      allowed,
+      remaining: Math.floor(remainingTokens),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / refillPerSecond),
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { ProjectFiles } from './compile-request';
+
+// templateUrl/styleUrl values, or the list of a styleUrls array
+const RESOURCE_URL_PATTERN = /\b(?:templateUrl|styleUrl)\s*:\s*(['"`])([^'"`]+)\1|\bstyleUrls\s*:\s*\[([^\]]*)\]/g;
+const STRING_LITERAL_PATTERN = /(['"`])([^'"`]+)\1/g;
+
+export interface ProjectOnDisk {
+  // Deepest directory containing every project file
+  root: string;
+  // Contents by path relative to `root`, as a compile request sends them
+  files: ProjectFiles;
+}
+
+/**
+ * Read the given files plus every file they reach through relative imports and the templates and
+ * stylesheets their components reference. Package imports are left to the compiler.
+ */
+export function readProjectFromDisk(entryFiles: string[]): ProjectOnDisk {
+  const contents = new Map<string, string>();
+  const pending = entryFiles.map(fileName => path.resolve(fileName));
+
+  while (pending.length > 0) {
+    const fileName = pending.pop()!;
+    if (contents.has(fileName)) {
+      continue;
+    }
+    const content = fs.readFileSync(fileName, 'utf8');
+    contents.set(fileName, content);
+    if (fileName.endsWith('.ts')) {
+      pending.push(...findReferencedFiles(fileName, content));
+    }
+  }
+
+  const root = findCommonDirectory([...contents.keys()]);
+  const files: ProjectFiles = {};
+  for (const [fileName, content] of contents) {
+    files[path.relative(root, fileName).split(path.sep).join('/')] = content;
+  }
+  return { root, files };
+}
+
+// Files that don't exist are skipped, so the compiler reports them like any other missing file
+function findReferencedFiles(fileName: string, content: string): string[] {
+  const directory = path.dirname(fileName);
+  const imports = ts.preProcessFile(content, true, false).importedFiles
+    .map(({ fileName: specifier }) => specifier)
+    .filter(specifier => specifier.startsWith('./') || specifier.startsWith('../'))
+    .map(specifier => resolveRelativeImport(path.resolve(directory, specifier)));
+  const resources = [...content.matchAll(RESOURCE_URL_PATTERN)]
+    .flatMap(match => match[2] !== undefined ? [match[2]] : [...match[3].matchAll(STRING_LITERAL_PATTERN)].map(url => url[2]))
+    .map(url => path.resolve(directory, url));
+
+  return [...imports, ...resources].filter((file): file is string => file !== undefined && isFile(file));
+}
+
+// Imports leave out the extension, use the emitted .js one, or name a directory with an index.ts
+function resolveRelativeImport(basePath: string): string | undefined {
+  const candidates = [basePath, `${basePath}.ts`, basePath.replace(/\.js$/, '.ts'), path.join(basePath, 'index.ts')];
+  return candidates.find(candidate => candidate.endsWith('.ts') && isFile(candidate));
+}
+
+function isFile(fileName: string): boolean {
+  return fs.statSync(fileName, { throwIfNoEntry: false })?.isFile() ?? false;
+}
+
+// Ends at the root at the latest, whose dirname is itself
+function findCommonDirectory(fileNames: string[]): string {
+  let directory = path.dirname(fileNames[0]);
+  while (path.dirname(directory) !== directory && !fileNames.every(fileName => isInside(fileName, directory))) {
+    directory = path.dirname(directory);
+  }
+  return directory;
+}
+
+function isInside(fileName: string, directory: string): boolean {
+  return path.relative(directory, fileName).split(path.sep)[0] !== '..';
+}
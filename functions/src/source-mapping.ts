@@ -0,0 +1,221 @@
+/**
+ * Maps Ivy runtime instructions in the final (cleaned and formatted) output back to the source
+ * spans they were generated from. TypeScript's source map describes the raw emitted file; the
+ * output we return has dev-mode blocks stripped and is reformatted by prettier, neither of which
+ * preserves the map. Both steps keep every instruction call in order though, so the n-th call in
+ * the raw file is the n-th call in the final file and its span can be carried over.
+ */
+
+export interface SourceSpan {
+  // Project-relative path of the source file (a .ts file or an external template)
+  file: string;
+  start: number;
+  end: number;
+}
+
+export interface SourceMapping {
+  // Instruction name, e.g. "ɵɵelementStart"
+  instruction: string;
+  // Offsets of the whole instruction call in the final output of the file
+  generated: { start: number; end: number };
+  source: SourceSpan;
+}
+
+interface RawSourceMap {
+  sources: string[];
+  sourceRoot?: string;
+  mappings: string;
+}
+
+interface MappingSegment {
+  generatedColumn: number;
+  sourceIndex: number;
+  sourceLine: number;
+  sourceColumn: number;
+}
+
+export interface SourceMappingInput {
+  emittedCode: string;
+  sourceMap: string;
+  // Ranges of `emittedCode` that were removed before formatting (e.g. dev-mode blocks)
+  removedRanges: Array<[number, number]>;
+  finalCode: string;
+  // Resolve a `sources` entry of the map to a project file and its content
+  resolveSource: (source: string) => { file: string; content: string } | undefined;
+}
+
+// Receiver plus instruction name of a call, e.g. `i0.ɵɵtext(`; the receiver may be renamed by minifiers
+const INSTRUCTION_CALL_PATTERN = /[\w$]+\.(ɵɵ\w+)\(/g;
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export function buildSourceMappings(input: SourceMappingInput): SourceMapping[] {
+  const map: RawSourceMap = JSON.parse(input.sourceMap);
+  const segmentsByLine = decodeMappings(map.mappings);
+  const emittedLineStarts = getLineStarts(input.emittedCode);
+
+  const emittedCalls = findInstructionCalls(input.emittedCode).filter(
+    call => !input.removedRanges.some(([start, end]) => call.start >= start && call.start < end)
+  );
+  const finalCalls = findInstructionCalls(input.finalCode);
+
+  // A different number of calls means the output was transformed in a way we can't follow
+  if (emittedCalls.length !== finalCalls.length) {
+    return [];
+  }
+
+  const sourceCache = new Map<number, { file: string; content: string; lineStarts: number[] } | null>();
+  const getSource = (index: number) => {
+    if (!sourceCache.has(index)) {
+      const source = map.sources[index] !== undefined
+        ? input.resolveSource(`${map.sourceRoot ?? ''}${map.sources[index]}`)
+        : undefined;
+      sourceCache.set(index, source ? { ...source, lineStarts: getLineStarts(source.content) } : null);
+    }
+    return sourceCache.get(index)!;
+  };
+
+  const mappings: SourceMapping[] = [];
+  emittedCalls.forEach((call, index) => {
+    const startSegment = findSegmentAt(call.start, emittedLineStarts, segmentsByLine);
+    if (!startSegment) return;
+
+    const source = getSource(startSegment.sourceIndex);
+    if (!source) return;
+
+    const start = toOffset(source.lineStarts, startSegment.sourceLine, startSegment.sourceColumn);
+    // The statement terminator is mapped to the end of the template node or binding
+    const endSegment = findSegmentAt(call.end, emittedLineStarts, segmentsByLine);
+    const end = endSegment && endSegment.sourceIndex === startSegment.sourceIndex
+      ? toOffset(source.lineStarts, endSegment.sourceLine, endSegment.sourceColumn)
+      : start + 1;
+
+    mappings.push({
+      instruction: call.instruction,
+      generated: { start: finalCalls[index].start, end: finalCalls[index].end },
+      source: { file: source.file, start, end: Math.max(end, start + 1) },
+    });
+  });
+
+  return mappings;
+}
+
+function findInstructionCalls(code: string): Array<{ instruction: string; start: number; end: number }> {
+  const calls: Array<{ instruction: string; start: number; end: number }> = [];
+  for (const match of code.matchAll(INSTRUCTION_CALL_PATTERN)) {
+    const openParen = match.index! + match[0].length - 1;
+    calls.push({ instruction: match[1], start: match.index!, end: findClosingParen(code, openParen) + 1 });
+  }
+  return calls;
+}
+
+// Index of the parenthesis closing the one at `openParen`, skipping string and template literals
+function findClosingParen(code: string, openParen: number): number {
+  let depth = 0;
+  for (let i = openParen; i < code.length; i++) {
+    const char = code[i];
+    if (char === '"' || char === "'" || char === '`') {
+      i = skipString(code, i);
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return code.length - 1;
+}
+
+function skipString(code: string, quoteIndex: number): number {
+  const quote = code[quoteIndex];
+  for (let i = quoteIndex + 1; i < code.length; i++) {
+    if (code[i] === '\\') {
+      i++;
+    } else if (code[i] === quote) {
+      return i;
+    }
+  }
+  return code.length;
+}
+
+function findSegmentAt(offset: number, lineStarts: number[], segmentsByLine: MappingSegment[][]): MappingSegment | undefined {
+  const line = findLine(lineStarts, offset);
+  const column = offset - lineStarts[line];
+  return segmentsByLine[line]?.find(segment => segment.generatedColumn === column);
+}
+
+/**
+ * Decode the VLQ `mappings` field into segments per generated line (only segments with a source)
+ */
+export function decodeMappings(mappings: string): MappingSegment[][] {
+  const lines: MappingSegment[][] = [];
+  let sourceIndex = 0;
+  let sourceLine = 0;
+  let sourceColumn = 0;
+
+  for (const line of mappings.split(';')) {
+    const segments: MappingSegment[] = [];
+    let generatedColumn = 0;
+
+    for (const encoded of line.split(',')) {
+      if (!encoded) continue;
+      const values = decodeVlq(encoded);
+      generatedColumn += values[0];
+      if (values.length < 4) continue;
+
+      sourceIndex += values[1];
+      sourceLine += values[2];
+      sourceColumn += values[3];
+      segments.push({ generatedColumn, sourceIndex, sourceLine, sourceColumn });
+    }
+
+    lines.push(segments);
+  }
+
+  return lines;
+}
+
+function decodeVlq(encoded: string): number[] {
+  const values: number[] = [];
+  let shift = 0;
+  let value = 0;
+
+  for (const char of encoded) {
+    const digit = BASE64_CHARS.indexOf(char);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >> 1) : value >> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
+
+function getLineStarts(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function findLine(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+function toOffset(lineStarts: number[], line: number, column: number): number {
+  return (lineStarts[line] ?? lineStarts[lineStarts.length - 1]) + column;
+}
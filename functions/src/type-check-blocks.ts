@@ -0,0 +1,111 @@
+import type { NgtscProgram } from '@angular/compiler-cli';
+import * as ts from 'typescript';
+import { CompileDiagnostic, formatDiagnosticFilePath, toCompileDiagnostic } from './compile-output';
+
+// The TemplateTypeChecker API is only available with this (internal) option, which makes the
+// compiler keep the extra state the language service needs; only set when blocks or component
+// metadata (for its defer blocks) are requested
+export const TYPE_CHECK_BLOCK_COMPILER_OPTIONS = { _enableTemplateTypeChecker: true };
+
+/**
+ * The type-check block (TCB) Angular generated for one component: a TypeScript function that
+ * mirrors its template, so type-checking it checks the template's bindings
+ */
+export interface TypeCheckBlock {
+  // Project-relative path of the component's file, and the component's class name
+  file: string;
+  component: string;
+  // Type-check shim the block was generated into, e.g. "main.ngtypecheck.ts"
+  shimFile: string;
+  source: string;
+  diagnostics: TypeCheckBlockDiagnostic[];
+}
+
+// A TypeScript error inside a TCB, which Angular reports against the template
+export interface TypeCheckBlockDiagnostic {
+  code: number;
+  category: CompileDiagnostic['category'];
+  message: string;
+  // Offsets in the block's `source`
+  start: number;
+  end: number;
+  // The same diagnostic as mapped back to the template, when Angular reports it
+  templateDiagnostic: CompileDiagnostic | null;
+}
+
+/**
+ * Collect the TCB of every component in the project, once the program has been analyzed and its
+ * shims created. `tsApi` must be the TypeScript the program was created with.
+ */
+export function collectTypeCheckBlocks(
+  ngProgram: NgtscProgram,
+  rootNames: readonly string[],
+  root: string,
+  tsApi: typeof ts = ts
+): TypeCheckBlock[] {
+  const checker = ngProgram.compiler.getTemplateTypeChecker();
+  const tsProgram = ngProgram.getTsProgram();
+  // Blocks are generated into the compiler's current program, the only one that can type-check them
+  const typeCheckProgram = () => ngProgram.compiler.getCurrentProgram();
+  const blocks: TypeCheckBlock[] = [];
+
+  for (const fileName of rootNames) {
+    const sourceFile = tsProgram.getSourceFile(fileName);
+    const classes = sourceFile?.statements.filter(tsApi.isClassDeclaration) ?? [];
+
+    for (const component of classes) {
+      // getTypeCheckBlock returns null for anything that isn't a component with a template
+      const block = checker.getTypeCheckBlock(component);
+      if (!block || !component.name) {
+        continue;
+      }
+      blocks.push({
+        file: formatDiagnosticFilePath(fileName, root).replace(/^\//, ''),
+        component: component.name.text,
+        ...readTypeCheckBlock(block, typeCheckProgram(), root, tsApi, checker.getDiagnosticsForComponent(component)),
+      });
+    }
+  }
+
+  return blocks;
+}
+
+function readTypeCheckBlock(
+  block: ts.Node,
+  program: ts.Program,
+  root: string,
+  tsApi: typeof ts,
+  templateDiagnostics: ts.Diagnostic[]
+): Pick<TypeCheckBlock, 'shimFile' | 'source' | 'diagnostics'> {
+  const shim = block.getSourceFile();
+  const start = block.getStart(shim);
+  const end = block.getEnd();
+  const blockDiagnostics = program.getSemanticDiagnostics(shim)
+    .filter(d => d.start !== undefined && d.start >= start && d.start < end);
+
+  // Angular keeps the code and message when mapping a diagnostic to the template, so pair them up on those
+  const unpaired = templateDiagnostics.map(d => ({ d, key: diagnosticKey(d, tsApi) }));
+  const diagnostics = blockDiagnostics.map((d): TypeCheckBlockDiagnostic => {
+    const key = diagnosticKey(d, tsApi);
+    const index = unpaired.findIndex(candidate => candidate.key === key);
+    const templateDiagnostic = index === -1 ? null : unpaired.splice(index, 1)[0].d;
+    return {
+      code: d.code,
+      category: toCompileDiagnostic(d, root).category,
+      message: tsApi.flattenDiagnosticMessageText(d.messageText, '\n'),
+      start: d.start! - start,
+      end: d.start! - start + (d.length ?? 0),
+      templateDiagnostic: templateDiagnostic ? toCompileDiagnostic(templateDiagnostic, root, 'angular') : null,
+    };
+  });
+
+  return {
+    shimFile: formatDiagnosticFilePath(shim.fileName, root).replace(/^\//, ''),
+    source: shim.text.slice(start, end),
+    diagnostics,
+  };
+}
+
+function diagnosticKey(d: ts.Diagnostic, tsApi: typeof ts): string {
+  return `${d.code}:${tsApi.flattenDiagnosticMessageText(d.messageText, '\n')}`;
+}
@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { callCompileHandler, HandlerResponse } from './handler';
+
+// Versions other than the default are only present after `npm run install:angular-versions`
+const INSTALLED_VERSIONS = ['17', '18', '19'].filter(version =>
+  fs.existsSync(path.resolve(__dirname, `../angular-versions/v${version}/node_modules/@angular/compiler-cli`))
+);
+
+const files = {
+  'main.ts': "import { Component } from '@angular/core';\n@Component({ selector: 'app-root', template: '<p>{{ title }}</p>' })\nexport class App { title = 'Hi'; }",
+};
+
+const filesWithTemplateError = {
+  'main.ts': files['main.ts'].replace('{{ title }}', '{{ titl }}'),
+};
+
+describe('angular versions', () => {
+  let defaultResponse: HandlerResponse;
+  let unsupported: HandlerResponse;
+  let responses: HandlerResponse[];
+  let templateErrorResponses: HandlerResponse[];
+
+  beforeAll(async () => {
+    let versionResponses: HandlerResponse[];
+    [defaultResponse, unsupported, ...versionResponses] = await callCompileHandler([
+      { body: { files } },
+      { body: { files, angularVersion: '16' } },
+      ...INSTALLED_VERSIONS.map(angularVersion => ({ body: { files, angularVersion } })),
+      ...INSTALLED_VERSIONS.map(angularVersion => ({ body: { files: filesWithTemplateError, angularVersion } })),
+    ]);
+    responses = versionResponses.slice(0, INSTALLED_VERSIONS.length);
+    templateErrorResponses = versionResponses.slice(INSTALLED_VERSIONS.length);
+  }, 240_000);
+
+  it('compiles with the default version when none is requested', () => {
+    expect(defaultResponse.status).toBe(200);
+    expect(defaultResponse.body.angularVersion).toMatch(/^20\./);
+  });
+
+  it('rejects unsupported versions', () => {
+    expect(unsupported.status).toBe(400);
+    expect(unsupported.body.error).toContain('Unsupported Angular version');
+  });
+
+  INSTALLED_VERSIONS.forEach((version, i) => {
+    it(`compiles with Angular ${version}`, () => {
+      const { status, body } = responses[i];
+
+      expect(status).toBe(200);
+      expect(body.hasDiagnostics).toBe(false);
+      expect(body.angularVersion).toMatch(new RegExp(`^${version}\\.`));
+      expect(body.compiledOutput).toContain('ɵɵdefineComponent');
+      // Cached separately from the same project compiled with the default version
+      expect(body.fromCache).toBe(false);
+    });
+  });
+
+  INSTALLED_VERSIONS.forEach((version, i) => {
+    it(`reports template errors of Angular ${version} as template diagnostics`, () => {
+      const { status, body } = templateErrorResponses[i];
+
+      expect(status).toBe(200);
+      expect(body.hasDiagnostics).toBe(true);
+      expect(body.diagnostics).toEqual([
+        expect.objectContaining({
+          file: 'main.ts',
+          source: 'template',
+          messageChain: expect.objectContaining({ message: expect.stringContaining("Property 'titl' does not exist") }),
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { BoundedCache, stringByteSize } from '../src/bounded-cache';
+
+describe('BoundedCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('evicts the least recently used entry, counting lookups as use', () => {
+    const cache = new BoundedCache<string, number>({ maxEntries: 2 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe(3);
+    expect(cache.stats()).toMatchObject({ entries: 2, hits: 3, misses: 1, evictions: 1 });
+  });
+
+  it('keeps the total size within maxBytes', () => {
+    const cache = new BoundedCache<string, string>({ maxBytes: 10, sizeOf: stringByteSize });
+    cache.set('a', 'abc');
+    cache.set('b', 'de');
+    expect(cache.stats().bytes).toBe(10);
+
+    cache.set('a', 'x');
+    expect(cache.stats().bytes).toBe(6);
+
+    cache.set('c', 'fgh');
+    expect(cache.has('b')).toBe(false);
+    expect(cache.stats()).toMatchObject({ entries: 2, bytes: 8 });
+  });
+
+  it('never stores an entry larger than maxBytes', () => {
+    const cache = new BoundedCache<string, string>({ maxBytes: 4, sizeOf: stringByteSize });
+    cache.set('a', 'ab');
+    cache.set('b', 'too large');
+
+    expect(cache.get('a')).toBe('ab');
+    expect(cache.has('b')).toBe(false);
+  });
+
+  it('expires entries after the TTL', () => {
+    jest.useFakeTimers({ now: 0 });
+    const cache = new BoundedCache<string, number>({ ttlMs: 1000 });
+    cache.set('a', 1);
+
+    jest.setSystemTime(1000);
+    expect(cache.get('a')).toBe(1);
+
+    jest.setSystemTime(1001);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ entries: 0, expirations: 1, misses: 1 });
+  });
+});
@@ -0,0 +1,100 @@
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readProjectFromDisk } from '../src/read-project';
+
+// Built by `pretest`, like the handler the other suites call
+const CLI = path.resolve(__dirname, '../lib/cli.js');
+
+const COMPONENT = [
+  "import { Component } from '@angular/core';",
+  "import { Greeting } from '../shared/greeting';",
+  '',
+  "@Component({ selector: 'app-root', templateUrl: './app.html', styleUrls: ['./app.css'] })",
+  "export class App { greeting: Greeting = { text: 'Hello' }; }",
+].join('\n');
+
+let projectDir: string;
+
+// Writes the files of a small app under a fresh temporary directory
+function writeProject(template: string): string {
+  const files: Record<string, string> = {
+    'src/app/app.ts': COMPONENT,
+    'src/app/app.html': template,
+    'src/app/app.css': 'h1 { color: red; }',
+    'src/shared/greeting.ts': 'export interface Greeting { text: string }',
+    'src/unused.ts': 'export const unused = 1;',
+  };
+  for (const [fileName, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(projectDir, fileName)), { recursive: true });
+    fs.writeFileSync(path.join(projectDir, fileName), content);
+  }
+  return path.join(projectDir, 'src/app/app.ts');
+}
+
+function runCli(args: string[]) {
+  // Run from elsewhere to make sure nothing depends on the working directory
+  return spawnSync(process.execPath, [CLI, ...args], { cwd: os.tmpdir(), encoding: 'utf8', timeout: 60_000 });
+}
+
+beforeEach(() => {
+  projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ivy-compile-'));
+});
+
+afterEach(() => {
+  fs.rmSync(projectDir, { recursive: true, force: true });
+});
+
+describe('readProjectFromDisk', () => {
+  it('follows relative imports and component resources only', () => {
+    const { root, files } = readProjectFromDisk([writeProject('<h1>{{ greeting.text }}</h1>')]);
+
+    expect(root).toBe(path.join(projectDir, 'src'));
+    expect(Object.keys(files).sort()).toEqual(['app/app.css', 'app/app.html', 'app/app.ts', 'shared/greeting.ts']);
+  });
+
+  it('falls back to the root for files in different top-level directories', () => {
+    const otherDir = fs.mkdtempSync(path.join('/var/tmp', 'ivy-compile-'));
+    try {
+      const otherFile = path.join(otherDir, 'c.ts');
+      fs.writeFileSync(otherFile, 'export const c = 1;');
+      const entry = writeProject('<h1>{{ greeting.text }}</h1>');
+
+      const { root, files } = readProjectFromDisk([entry, otherFile]);
+
+      expect(root).toBe('/');
+      expect(Object.keys(files)).toEqual(expect.arrayContaining([entry.slice(1), otherFile.slice(1)]));
+    } finally {
+      fs.rmSync(otherDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('ivy-compile', () => {
+  it('prints the compiled output', () => {
+    const { status, stdout, stderr } = runCli([writeProject('<h1>{{ greeting.text }}</h1>')]);
+
+    expect(stderr).toBe('');
+    expect(status).toBe(0);
+    expect(stdout).toContain('i0.ɵɵtextInterpolate(ctx.greeting.text)');
+  }, 60_000);
+
+  it('reports diagnostics as JSON and exits with 1', () => {
+    const { status, stdout } = runCli([writeProject('<h1>{{ greeting.nope }}</h1>'), '--json']);
+
+    expect(status).toBe(1);
+    expect(JSON.parse(stdout)).toMatchObject({
+      hasDiagnostics: true,
+      diagnostics: [{ file: 'app/app.html', code: 2339, source: 'template' }],
+    });
+  }, 60_000);
+
+  it('rejects invalid arguments with 2', () => {
+    const entry = writeProject('<h1>{{ greeting.text }}</h1>');
+
+    expect(runCli([entry, '--option', 'target=ES3']).status).toBe(2);
+    expect(runCli([entry, '--unknown']).status).toBe(2);
+    expect(runCli([]).status).toBe(2);
+  }, 60_000);
+});
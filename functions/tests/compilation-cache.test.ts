@@ -0,0 +1,33 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createFileCompilationCache, createPersistentCompilationCache } from '../src/compilation-cache';
+
+describe('file compilation cache', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'compilation-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('returns stored results to a new cache over the same directory', async () => {
+    const result = { compiledOutput: 'ɵɵdefineComponent', hasDiagnostics: false };
+    await createFileCompilationCache(directory).set('key', result);
+
+    expect(await createFileCompilationCache(directory).get('key')).toEqual(result);
+    expect(await createFileCompilationCache(directory).get('other')).toBeUndefined();
+  });
+});
+
+describe('createPersistentCompilationCache', () => {
+  it('selects the backend from COMPILATION_CACHE', () => {
+    expect(createPersistentCompilationCache({})).toBeUndefined();
+    expect(createPersistentCompilationCache({ COMPILATION_CACHE: 'memory' })).toBeUndefined();
+    expect(createPersistentCompilationCache({ COMPILATION_CACHE: 'file' })?.layer).toBe('file');
+    expect(createPersistentCompilationCache({ COMPILATION_CACHE: 'firestore' })?.layer).toBe('firestore');
+  });
+});
@@ -0,0 +1,69 @@
+import { callBatchHandler, HandlerResponse } from './handler';
+
+const component = (title: string) =>
+  `import { Component } from '@angular/core';\n@Component({ selector: 'app-root', template: '<h1>{{ title }}</h1>' })\nexport class App { title = '${title}'; }`;
+
+describe('batch compilation', () => {
+  let responses: HandlerResponse[];
+
+  beforeAll(async () => {
+    const snippets = [
+      { id: 'hello', code: component('Hello') },
+      { id: 'typo', code: component('Typo').replace('{{ title }}', '{{ titel }}') },
+      { id: 'empty', code: '' },
+      { id: 'session', code: component('Session'), sessionId: 'mine' },
+      { id: 'missing-package', code: "import { Chart } from 'chart.js';\nexport const chart = Chart;" },
+      { id: 'minified', code: component('Minified'), output: { minify: true } },
+    ];
+    responses = await callBatchHandler([
+      { body: { snippets } },
+      // Compiled again, from the compilation cache
+      { body: { snippets: snippets.slice(0, 1) } },
+      { body: { snippets: [{ id: 'a', code: component('A') }, { id: 'a', code: component('B') }] } },
+      { body: { snippets: [{ code: component('A') }] } },
+      { body: { snippets: [] } },
+      { body: { snippets: Array.from({ length: 101 }, (_, i) => ({ id: `s${i}`, code: component('A') })) } },
+      { method: 'GET' },
+      // 30 compilations per client: the remaining tokens go to the first snippets of this batch
+      { body: { snippets: Array.from({ length: 30 }, (_, i) => ({ id: `s${i}`, code: component('Hello') })) } },
+    ]);
+  }, 180_000);
+
+  it('answers every snippet by ID without failing the batch', () => {
+    const [{ status, body }] = responses;
+    expect(status).toBe(200);
+    expect(Object.keys(body.results)).toEqual(['hello', 'typo', 'empty', 'session', 'missing-package', 'minified']);
+
+    const { hello, typo, empty, session, minified } = body.results;
+    expect(hello.result.hasDiagnostics).toBe(false);
+    expect(hello.result.compiledOutput).toContain('ɵɵdefineComponent');
+    expect(typo.result.hasDiagnostics).toBe(true);
+    expect(empty.error).toEqual({ code: 'INVALID_INPUT', error: 'Code must be a non-empty string' });
+    expect(session.error).toEqual({ code: 'INVALID_INPUT', error: 'Snippets cannot set a session ID' });
+    expect(body.results['missing-package'].error.code).toBe('MODULE_RESOLUTION_FAILED');
+    expect(minified.result.compiledOutput).not.toContain('\n  ');
+  });
+
+  it('builds later snippets on the batch program and caches each snippet', () => {
+    expect(responses[0].body.results.minified.result.timings.incremental).toBe(1);
+    expect(responses[1].body.results.hello.result.fromCache).toBe(true);
+  });
+
+  it('rejects malformed batches as a whole', () => {
+    expect(responses.slice(2, 7).map(({ status, body }) => [status, body.code, body.error])).toEqual([
+      [400, 'INVALID_INPUT', 'Duplicate snippet id: a'],
+      [400, 'INVALID_INPUT', 'Snippet 0 needs an id of 1-128 letters, digits or ".:/#-_"'],
+      [400, 'INVALID_INPUT', 'Snippets must be a non-empty array'],
+      [413, 'INVALID_INPUT', 'Batches are limited to 100 snippets (got 101)'],
+      [405, 'INVALID_INPUT', 'Method not allowed'],
+    ]);
+  });
+
+  it('rate limits each snippet', () => {
+    const results = Object.values<any>(responses[7].body.results);
+    const limited = results.filter(item => item.error?.code === 'RATE_LIMITED');
+    expect(limited.length).toBeGreaterThan(0);
+    expect(results[0].result.fromCache).toBe(true);
+    expect(results.at(-1).error.retryAfterSeconds).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,79 @@
+import { CompileError, toCompileError } from '../src/compile-errors';
+import { buildCompiledOutput, CompileDiagnostic, findUnresolvedPackages } from '../src/compile-output';
+import { callCompileHandler } from './handler';
+
+const cannotFindModule = (name: string): CompileDiagnostic => ({
+  file: 'main.ts',
+  start: { line: 1, column: 1 },
+  end: { line: 1, column: 10 },
+  category: 'error',
+  code: 2307,
+  messageChain: { message: `Cannot find module '${name}' or its corresponding type declarations.`, code: 2307, category: 'error' },
+  source: 'typescript',
+});
+
+describe('CompileError', () => {
+  it('answers each kind with its own status unless told otherwise', () => {
+    expect(new CompileError('TIMEOUT', 'Too slow').status).toBe(504);
+    expect(new CompileError('INVALID_INPUT', 'Too big', { status: 413 }).status).toBe(413);
+  });
+
+  it('serializes the code, message and details without the status', () => {
+    const error = new CompileError('RATE_LIMITED', 'Slow down', { status: 429, retryAfterSeconds: 3 });
+
+    expect(error.toResponseBody()).toEqual({ code: 'RATE_LIMITED', error: 'Slow down', retryAfterSeconds: 3 });
+  });
+
+  it('treats unclassified exceptions as compiler crashes', () => {
+    const timeout = new CompileError('TIMEOUT', 'Too slow');
+
+    expect(toCompileError(timeout)).toBe(timeout);
+    expect(toCompileError(new TypeError('x is undefined')).toResponseBody()).toEqual({
+      code: 'COMPILER_CRASH',
+      error: 'x is undefined',
+    });
+  });
+});
+
+describe('findUnresolvedPackages', () => {
+  it('reports missing packages once each, but not missing project files', () => {
+    const diagnostics = [cannotFindModule('lodash'), cannotFindModule('./models'), cannotFindModule('lodash')];
+
+    expect(findUnresolvedPackages(diagnostics)).toEqual(['lodash']);
+  });
+});
+
+describe('buildCompiledOutput', () => {
+  it('hands over the unformatted output when formatting fails', async () => {
+    const build = buildCompiledOutput({
+      projectFiles: { 'main.ts': '', 'models.ts': '' },
+      compiledFiles: { 'main.ts': 'export class App {}\n', 'models.ts': 'export const x = 1;\n' },
+      compiledSourceMaps: {},
+      root: '/project',
+      format: async () => {
+        throw new SyntaxError('Unexpected token');
+      },
+    });
+
+    await expect(build).rejects.toMatchObject({
+      code: 'FORMATTING_FAILED',
+      message: 'Formatting the output failed: Unexpected token',
+      details: { rawOutput: '// main.ts\nexport class App {}\n\n// models.ts\nexport const x = 1;\n' },
+    });
+  });
+});
+
+describe('compile handler errors', () => {
+  it('rejects imports of packages the compiler does not have', async () => {
+    const [{ status, body }] = await callCompileHandler([
+      { body: { files: { 'main.ts': "import { Store } from '@ngrx/store';\nexport const store = Store;" } } },
+    ]);
+
+    expect(status).toBe(422);
+    expect(body).toEqual({
+      code: 'MODULE_RESOLUTION_FAILED',
+      error: expect.stringContaining("Cannot find '@ngrx/store'"),
+      modules: ['@ngrx/store'],
+    });
+  }, 60_000);
+});
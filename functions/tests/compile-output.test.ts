@@ -0,0 +1,74 @@
+import { findNgDevModeBlocks, formatDiagnosticFilePath, removeNgDevModeBlocks } from '../src/compile-output';
+
+const devModeBlock = (call: string) => `(() => { (typeof ngDevMode === "undefined" || ngDevMode) && ${call}; })();`;
+
+describe('removeNgDevModeBlocks', () => {
+  it('removes class metadata and debug info blocks, whatever the core import is called', () => {
+    const code = [
+      'export class App {}',
+      devModeBlock('i0.ɵsetClassMetadata(App, [{ type: Component }], null, null)'),
+      devModeBlock('i0.ɵsetClassDebugInfo(App, { className: "App", filePath: "main.ts", lineNumber: 3 })'),
+      'export class Other {}',
+      devModeBlock('i12.ɵsetClassMetadata(Other, [], null, null)'),
+      '',
+    ].join('\n');
+
+    expect(removeNgDevModeBlocks(code)).toBe('export class App {}\nexport class Other {}\n');
+  });
+
+  it('keeps going past semicolons and braces in inlined templates and styles', () => {
+    const metadata = 'i0.ɵsetClassMetadata(App, [{ type: Component, args: [{ template: "<p>a; b</p>", styles: [".a { color: red; }"] }] }], null, null)';
+
+    expect(removeNgDevModeBlocks(`export class App {}\n${devModeBlock(metadata)}\nexport const after = 1;\n`))
+      .toBe('export class App {}\nexport const after = 1;\n');
+  });
+
+  it('removes a block at the very end without a trailing semicolon', () => {
+    const block = devModeBlock('i0.ɵsetClassMetadata(App, [], null, null)').replace(/;$/, '');
+
+    expect(removeNgDevModeBlocks(`export class App {}\n${block}`)).toBe('export class App {}\n');
+  });
+
+  it('leaves other dev-mode checks and code without blocks alone', () => {
+    const code = [
+      'export class App {}',
+      '(typeof ngDevMode === "undefined" || ngDevMode) && console.warn("dev only");',
+      devModeBlock('i0.ɵɵsetComponentScope(App, [], [])'),
+      '',
+    ].join('\n');
+
+    expect(removeNgDevModeBlocks(code)).toBe(code);
+    expect(removeNgDevModeBlocks('')).toBe('');
+  });
+
+  it('reports the ranges it removes', () => {
+    const block = devModeBlock('i0.ɵsetClassMetadata(App, [], null, null)');
+    const code = `export class App {}\n${block}\n`;
+
+    expect(findNgDevModeBlocks(code)).toEqual([[20, code.length]]);
+    expect(findNgDevModeBlocks('export class App {}')).toEqual([]);
+  });
+});
+
+describe('formatDiagnosticFilePath', () => {
+  it('shows project files relative to the root', () => {
+    expect(formatDiagnosticFilePath('/tmp/project/main.ts', '/tmp/project')).toBe('/main.ts');
+    expect(formatDiagnosticFilePath('/tmp/project/shared/models.ts', '/tmp/project')).toBe('/shared/models.ts');
+    expect(formatDiagnosticFilePath('/tmp/project/main.ngtypecheck.ts', '/tmp/project/')).toBe('/main.ngtypecheck.ts');
+  });
+
+  it('accepts Windows separators in either path', () => {
+    expect(formatDiagnosticFilePath('C:\\work\\project\\shared\\models.ts', 'C:\\work\\project')).toBe('/shared/models.ts');
+    expect(formatDiagnosticFilePath('C:/work/project/main.ts', 'C:\\work\\project\\')).toBe('/main.ts');
+  });
+
+  it('does not treat siblings that share the root as a prefix as project files', () => {
+    expect(formatDiagnosticFilePath('/tmp/project-2/shared/models.ts', '/tmp/project')).toBe('/models.ts');
+  });
+
+  it('shortens files outside the project to their name', () => {
+    expect(formatDiagnosticFilePath('/srv/functions/node_modules/@angular/core/index.d.ts', '/tmp/project')).toBe('/index.d.ts');
+    expect(formatDiagnosticFilePath('main.ts', '/tmp/project')).toBe('/main.ts');
+    expect(formatDiagnosticFilePath('lib.dom.d.ts', '/tmp/project')).toBe('/lib.dom.d.ts');
+  });
+});
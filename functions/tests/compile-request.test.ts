@@ -0,0 +1,60 @@
+import { callCompileHandler, HandlerResponse } from './handler';
+
+const files = { 'main.ts': "import { Component } from '@angular/core';\n@Component({ template: '' })\nexport class App {}" };
+
+describe('compile request validation', () => {
+  let responses: HandlerResponse[];
+
+  beforeAll(async () => {
+    responses = await callCompileHandler(
+      [
+        { body: [files] },
+        { body: { files, verbose: true } },
+        { body: { code: 42 } },
+        { body: { files, code: 'export class App {}' } },
+        { body: { files: { ...files, 'big.ts': 'x'.repeat(300 * 1024) } } },
+        { body: { files: Object.fromEntries(Array.from({ length: 51 }, (_, i) => [`f${i}.ts`, ''])) } },
+        { headers: { origin: 'https://example.com' }, body: { files } },
+        { method: 'OPTIONS', headers: { origin: 'http://localhost:4200' } },
+        { headers: { 'x-api-key': 'wrong' }, body: { files } },
+        { headers: { 'x-api-key': 'test-key' }, body: { files } },
+      ],
+      { COMPILE_API_KEYS: 'test-key' }
+    );
+  }, 60_000);
+
+  it('rejects malformed bodies with 400', () => {
+    expect(responses.slice(0, 4).map(({ status, body }) => [status, body.code, body.error])).toEqual([
+      [400, 'INVALID_INPUT', 'Request body must be a JSON object'],
+      [400, 'INVALID_INPUT', 'Unknown request field: verbose'],
+      [400, 'INVALID_INPUT', 'Code must be a non-empty string'],
+      [400, 'INVALID_INPUT', 'Send either files or code, not both'],
+    ]);
+  });
+
+  it('rejects projects over the size limits with 413', () => {
+    const [tooLarge, tooManyFiles] = responses.slice(4, 6);
+
+    expect(tooLarge.status).toBe(413);
+    expect(tooLarge.body.error).toContain('256 KiB');
+    expect(tooManyFiles.status).toBe(413);
+    expect(tooManyFiles.body.error).toContain('50 files');
+  });
+
+  it('only allows CORS requests from allowed origins', () => {
+    const [disallowed, preflight] = responses.slice(6, 8);
+
+    expect(disallowed.status).toBe(403);
+    expect(disallowed.body.code).toBe('ACCESS_DENIED');
+    expect(disallowed.headers['access-control-allow-origin']).toBeUndefined();
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers['access-control-allow-origin']).toBe('http://localhost:4200');
+  });
+
+  it('checks API keys', () => {
+    const [invalidKey, validKey] = responses.slice(8, 10);
+
+    expect(invalidKey.status).toBe(401);
+    expect(validKey.status).toBe(200);
+  });
+});
@@ -0,0 +1,79 @@
+import * as ts from 'typescript';
+import { parseCompilerOptions, resolveCompilerOptions, serializeCompilerOptions } from '../src/compiler-options';
+import { callCompileHandler } from './handler';
+
+describe('parseCompilerOptions', () => {
+  it('accepts a missing object and whitelisted values', () => {
+    expect(parseCompilerOptions(undefined)).toEqual({ options: {} });
+    expect(parseCompilerOptions(null)).toEqual({ options: {} });
+    expect(parseCompilerOptions({ target: 'ES2017', strictTemplates: false, compilationMode: 'partial' })).toEqual({
+      options: { target: 'ES2017', strictTemplates: false, compilationMode: 'partial' },
+    });
+  });
+
+  it('rejects options the playground depends on', () => {
+    expect(parseCompilerOptions({ module: 'commonjs' })).toEqual({ error: 'Unsupported compiler option: module' });
+    expect(parseCompilerOptions({ outDir: '/tmp' })).toEqual({ error: 'Unsupported compiler option: outDir' });
+  });
+
+  it('rejects mistyped values', () => {
+    expect(parseCompilerOptions('strict')).toEqual({ error: 'Options must be an object' });
+    expect(parseCompilerOptions([])).toEqual({ error: 'Options must be an object' });
+    expect(parseCompilerOptions({ strict: 'true' })).toEqual({
+      error: 'Invalid value for compiler option strict: expected one of true, false',
+    });
+    expect(parseCompilerOptions({ target: 'ES5' })).toEqual({
+      error: 'Invalid value for compiler option target: expected one of ES2015, ES2017, ES2020, ES2022, ESNext',
+    });
+  });
+});
+
+describe('resolveCompilerOptions', () => {
+  it('uses the playground defaults when nothing is overridden', () => {
+    const resolved = resolveCompilerOptions({});
+
+    expect(resolved.target).toBe(ts.ScriptTarget.ES2022);
+    expect(resolved.module).toBe(ts.ModuleKind.ES2022);
+    expect(resolved.strictTemplates).toBe(true);
+    expect(resolved.compilationMode).toBe('full');
+  });
+
+  it('maps the target name to TypeScript and keeps other flags as given', () => {
+    const resolved = resolveCompilerOptions({ target: 'ES2015', strict: false, compilationMode: 'partial' });
+
+    expect(resolved.target).toBe(ts.ScriptTarget.ES2015);
+    expect(resolved.strict).toBe(false);
+    expect(resolved.compilationMode).toBe('partial');
+  });
+
+  it('switches the fine-grained template checks with strictTemplates', () => {
+    const resolved = resolveCompilerOptions({ strictTemplates: false });
+
+    expect(resolved.strictTemplates).toBe(false);
+    expect(resolved.strictInputTypes).toBe(false);
+    expect(resolved.strictNullInputTypes).toBe(false);
+    expect(resolved.strictDomEventTypes).toBe(false);
+  });
+});
+
+describe('serializeCompilerOptions', () => {
+  it('does not depend on the order options were given in', () => {
+    expect(serializeCompilerOptions({ strict: false, target: 'ES2020' }))
+      .toBe(serializeCompilerOptions({ target: 'ES2020', strict: false }));
+    expect(serializeCompilerOptions({ strict: false })).not.toBe(serializeCompilerOptions({}));
+  });
+});
+
+describe('compiler options in requests', () => {
+  it('are rejected with 400 when unsupported', async () => {
+    const [unsupported, mistyped] = await callCompileHandler([
+      { body: { code: 'export class App {}', options: { noEmit: true } } },
+      { body: { code: 'export class App {}', options: { strictTemplates: 1 } } },
+    ]);
+
+    expect(unsupported.status).toBe(400);
+    expect(unsupported.body.error).toBe('Unsupported compiler option: noEmit');
+    expect(mistyped.status).toBe(400);
+    expect(mistyped.body.error).toContain('Invalid value for compiler option strictTemplates');
+  }, 60_000);
+});
@@ -0,0 +1,112 @@
+import { callCompileHandler } from './handler';
+
+const files = {
+  'main.ts': [
+    "import { ChangeDetectionStrategy, Component, ContentChildren, Directive, EventEmitter, HostListener, Input, Output, QueryList, input, model, output, viewChild } from '@angular/core';",
+    "import { Chart } from './chart';",
+    '',
+    "@Directive({ selector: '[appToggle]', host: { '[class.on]': 'on()', role: 'button' } })",
+    'export class Toggle {',
+    '  on = input(false);',
+    "  @HostListener('click', ['$event']) toggle(event: MouseEvent) {}",
+    '}',
+    '',
+    '@Component({',
+    "  selector: 'app-root',",
+    '  imports: [Toggle, Chart],',
+    '  changeDetection: ChangeDetectionStrategy.OnPush,',
+    '  templateUrl: "./app.html",',
+    '})',
+    'export class App {',
+    "  @Input({ alias: 'heading' }) title = '';",
+    '  count = model(0);',
+    '  @Output() saved = new EventEmitter<void>();',
+    '  closed = output();',
+    "  box = viewChild('box');",
+    '  @ContentChildren(Toggle) toggles!: QueryList<Toggle>;',
+    '}',
+  ].join('\n'),
+  'app.html': [
+    '<div #box appToggle>{{ title }}</div>',
+    '@defer (on viewport; prefetch on idle) {',
+    '  <app-chart />',
+    '} @placeholder {',
+    '  <p>Chart</p>',
+    '}',
+  ].join('\n'),
+  'chart.ts': [
+    "import { Component } from '@angular/core';",
+    '',
+    "@Component({ selector: 'app-chart', template: '<canvas></canvas>' })",
+    'export class Chart {}',
+  ].join('\n'),
+};
+
+describe('component metadata', () => {
+  it('is only returned on request', async () => {
+    const [{ body }] = await callCompileHandler([{ body: { files } }]);
+
+    expect(body.hasDiagnostics).toBe(false);
+    expect(body.componentMetadata).toBeUndefined();
+  }, 60_000);
+
+  it('describes each component and directive', async () => {
+    const [{ status, body }] = await callCompileHandler([{ body: { files, output: { componentMetadata: true } } }]);
+
+    expect(status).toBe(200);
+    expect(body.componentMetadata.map((m: { className: string }) => m.className)).toEqual(['Toggle', 'App', 'Chart']);
+
+    const [toggle, app, chart] = body.componentMetadata;
+    expect(toggle).toMatchObject({
+      file: 'main.ts',
+      kind: 'directive',
+      selector: '[appToggle]',
+      changeDetection: null,
+      hostBindings: [
+        { kind: 'property', name: 'class.on', value: 'on()', declaredIn: 'host' },
+        { kind: 'attribute', name: 'role', value: 'button', declaredIn: 'host' },
+        { kind: 'listener', name: 'click', value: 'toggle($event)', declaredIn: 'decorator' },
+      ],
+      deferBlocks: [],
+    });
+    expect(app).toMatchObject({
+      kind: 'component',
+      selector: 'app-root',
+      standalone: true,
+      changeDetection: 'OnPush',
+      inputs: [
+        { name: 'title', bindingName: 'heading', required: false, flavor: 'decorator' },
+        { name: 'count', bindingName: 'count', required: false, flavor: 'signal' },
+      ],
+      outputs: [
+        { name: 'count', bindingName: 'countChange', flavor: 'signal' },
+        { name: 'saved', bindingName: 'saved', flavor: 'decorator' },
+        { name: 'closed', bindingName: 'closed', flavor: 'signal' },
+      ],
+      queries: [
+        { name: 'box', kind: 'viewChild', predicate: "'box'", flavor: 'signal' },
+        { name: 'toggles', kind: 'contentChildren', predicate: 'Toggle', flavor: 'decorator' },
+      ],
+      imports: ['Toggle', 'Chart'],
+      deferredImports: [],
+      deferBlocks: [{
+        block: '@defer (on viewport; prefetch on idle) {',
+        triggers: ['on viewport', 'prefetch on idle'],
+        placeholder: true,
+        loading: false,
+        error: false,
+        dependencies: ['Chart'],
+      }],
+    });
+    expect(chart).toMatchObject({ file: 'chart.ts', changeDetection: 'Default', inputs: [], outputs: [] });
+  }, 60_000);
+
+  it('is returned with the diagnostics of a template that does not compile', async () => {
+    const [{ body }] = await callCompileHandler([
+      { body: { files: { ...files, 'app.html': '{{ missing }}' }, output: { componentMetadata: true } } },
+    ]);
+
+    expect(body.hasDiagnostics).toBe(true);
+    expect(body.componentMetadata[1]).toMatchObject({ className: 'App', selector: 'app-root', deferBlocks: [] });
+  }, 60_000);
+});
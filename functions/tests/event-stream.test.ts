@@ -0,0 +1,78 @@
+import { callCompileHandler } from './handler';
+
+const STREAM_HEADERS = { accept: 'text/event-stream' };
+
+// Server-Sent Events as { event, data } in the order they were sent
+function parseEventStream(text: string): Array<{ event: string; data: any }> {
+  return text.split('\n\n').filter(block => block.trim()).map(block => {
+    const lines = block.split('\n');
+    const event = lines.find(line => line.startsWith('event: '))!.slice('event: '.length);
+    const data = lines.filter(line => line.startsWith('data: ')).map(line => line.slice('data: '.length)).join('\n');
+    return { event, data: JSON.parse(data) };
+  });
+}
+
+const component = [
+  "import { Component } from '@angular/core';",
+  '',
+  "@Component({ selector: 'app-root', template: '<h1>{{ title }}</h1>' })",
+  "export class App { title = 'Hello'; }",
+].join('\n');
+
+describe('compile event stream', () => {
+  it('sends each finished phase, then the result', async () => {
+    const [{ status, headers, body }] = await callCompileHandler([{ headers: STREAM_HEADERS, body: { code: component } }]);
+
+    expect(status).toBe(200);
+    expect(headers['content-type']).toBe('text/event-stream');
+
+    const events = parseEventStream(body);
+    const phases = events.filter(e => e.event === 'phase').map(e => e.data);
+    expect(phases.map(p => p.phase)).toEqual([
+      'setup', 'hashing', 'cacheCheck', 'hostCreation', 'programCreation', 'analysis', 'emission', 'formatting',
+    ]);
+    // Elapsed time only grows, and each phase took part of it
+    phases.forEach((phase, index) => {
+      expect(phase.duration).toBeGreaterThanOrEqual(0);
+      expect(phase.elapsed).toBeGreaterThanOrEqual(index > 0 ? phases[index - 1].elapsed : 0);
+    });
+
+    expect(events.map(e => e.event).slice(-1)).toEqual(['result']);
+    expect(events.at(-1)!.data).toMatchObject({ hasDiagnostics: false, fromCache: false });
+    expect(events.at(-1)!.data.compiledOutput).toContain('ɵɵdefineComponent');
+  }, 60_000);
+
+  it('stops after the cache check for a cached result', async () => {
+    const [, { body }] = await callCompileHandler([
+      { body: { code: component } },
+      { headers: STREAM_HEADERS, body: { code: component } },
+    ]);
+
+    const events = parseEventStream(body);
+    expect(events.map(e => e.event === 'phase' ? e.data.phase : e.event)).toEqual(['setup', 'hashing', 'cacheCheck', 'result']);
+    expect(events[3].data.fromCache).toBe(true);
+  }, 60_000);
+
+  it('ends with an error event when the compilation fails', async () => {
+    const [{ status, body }] = await callCompileHandler([{
+      headers: STREAM_HEADERS,
+      body: { code: "import { Chart } from 'chart.js';\nexport const chart = Chart;" },
+    }]);
+
+    // The stream had already started, so the failure is reported in it
+    expect(status).toBe(200);
+    const events = parseEventStream(body);
+    expect(events.at(-1)).toEqual({
+      event: 'error',
+      data: expect.objectContaining({ code: 'MODULE_RESOLUTION_FAILED', modules: ['chart.js'] }),
+    });
+    expect(events.some(e => e.event === 'result')).toBe(false);
+  }, 60_000);
+
+  it('answers invalid requests with a plain JSON error', async () => {
+    const [{ status, body }] = await callCompileHandler([{ headers: STREAM_HEADERS, body: {} }]);
+
+    expect(status).toBe(400);
+    expect(body).toMatchObject({ code: 'INVALID_INPUT' });
+  }, 60_000);
+});
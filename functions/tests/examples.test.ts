@@ -0,0 +1,28 @@
+import { EXAMPLES } from '../../src/app/examples';
+import { toFileMap } from '../../src/app/project-file';
+import { callCompileHandler, HandlerResponse } from './handler';
+
+describe('example gallery', () => {
+  let responses: Map<string, HandlerResponse>;
+
+  beforeAll(async () => {
+    const results = await callCompileHandler(
+      EXAMPLES.map(example => ({ body: { files: toFileMap(example.files), options: {} } }))
+    );
+    responses = new Map(EXAMPLES.map((example, i) => [example.id, results[i]]));
+  }, 120_000);
+
+  it('has unique ids', () => {
+    const ids = EXAMPLES.map(example => example.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it.each(EXAMPLES.map(example => example.id))('compiles %s without diagnostics', id => {
+    const { status, body } = responses.get(id)!;
+
+    expect(status).toBe(200);
+    expect(body.diagnostics ?? []).toEqual([]);
+    expect(body.hasDiagnostics).toBe(false);
+    expect(body.compiledOutput).toContain('ɵɵdefineComponent');
+  });
+});
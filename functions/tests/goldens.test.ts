@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { callCompileHandler, HandlerResponse } from './handler';
+
+// Each directory under goldens/ is a project compiled by the real handler. Next to its files, an
+// optional request.json adds request fields (options, output), and expected/ holds the golden
+// response. Run `npm run test:update-goldens` to regenerate them after an intended change.
+const GOLDENS_DIR = path.join(__dirname, 'goldens');
+const REQUEST_FILE = 'request.json';
+const EXPECTED_DIR = 'expected';
+const UPDATE_GOLDENS = process.env.UPDATE_GOLDENS === '1';
+
+// Differ between runs, machines or Angular patch releases
+const VOLATILE_FIELDS = ['compilationTime', 'timings', 'fromCache', 'cacheLayer', 'angularVersion'];
+// Derived from the compiled output, which is compared on its own
+const DERIVED_FIELDS = ['compiledOutput', 'outputFiles', 'sourceMappings'];
+
+const cases = fs.readdirSync(GOLDENS_DIR).filter(name => fs.statSync(path.join(GOLDENS_DIR, name)).isDirectory()).sort();
+
+describe('golden outputs', () => {
+  let responses: Map<string, HandlerResponse>;
+
+  beforeAll(async () => {
+    const results = await callCompileHandler(cases.map(name => ({ body: readCaseRequest(name) })));
+    responses = new Map(cases.map((name, i) => [name, results[i]]));
+  }, 180_000);
+
+  it.each(cases)('%s', name => {
+    const { status, body } = responses.get(name)!;
+    const actual = {
+      // Successful output reads best as JavaScript, diagnostics as plain text
+      [body.hasDiagnostics ? 'output.txt' : 'output.js']: body.compiledOutput,
+      'response.json': `${JSON.stringify({ status, ...normalizeBody(body) }, null, 2)}\n`,
+    };
+    const expectedDir = path.join(GOLDENS_DIR, name, EXPECTED_DIR);
+
+    if (UPDATE_GOLDENS) {
+      fs.rmSync(expectedDir, { recursive: true, force: true });
+      fs.mkdirSync(expectedDir);
+      for (const [fileName, content] of Object.entries(actual)) {
+        if (content !== undefined) {
+          fs.writeFileSync(path.join(expectedDir, fileName), content);
+        }
+      }
+      return;
+    }
+
+    if (!fs.existsSync(expectedDir)) {
+      throw new Error(`${name} has no goldens yet; run \`npm run test:update-goldens\``);
+    }
+    const expected = Object.fromEntries(fs.readdirSync(expectedDir).map(fileName => [
+      fileName,
+      fs.readFileSync(path.join(expectedDir, fileName), 'utf8'),
+    ]));
+    expect(Object.fromEntries(Object.entries(actual).filter(([, content]) => content !== undefined))).toEqual(expected);
+  });
+});
+
+// The case's files keyed by project-relative path, plus the fields of its request.json
+function readCaseRequest(name: string): Record<string, unknown> {
+  const caseDir = path.join(GOLDENS_DIR, name);
+  const files: Record<string, string> = {};
+  const readDir = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fileName = path.join(dir, entry.name);
+      const projectPath = path.relative(caseDir, fileName).split(path.sep).join('/');
+      if (projectPath === REQUEST_FILE || projectPath === EXPECTED_DIR) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        readDir(fileName);
+      } else {
+        files[projectPath] = fs.readFileSync(fileName, 'utf8');
+      }
+    }
+  };
+  readDir(caseDir);
+
+  const requestFile = path.join(caseDir, REQUEST_FILE);
+  const fields = fs.existsSync(requestFile) ? JSON.parse(fs.readFileSync(requestFile, 'utf8')) : {};
+  return { ...fields, files };
+}
+
+function normalizeBody(body: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(body).filter(([field]) => ![...VOLATILE_FIELDS, ...DERIVED_FIELDS].includes(field)));
+}
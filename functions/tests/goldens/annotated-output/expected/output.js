@@ -0,0 +1,73 @@
+import { Component, signal } from '@angular/core';
+import { UpperCasePipe } from '@angular/common';
+import * as i0 from '@angular/core';
+function Greeter_For_6_Template(rf, ctx) {
+  if (rf & 1) {
+    i0.ɵɵdomElementStart(0, 'span');
+    i0.ɵɵtext(1);
+    i0.ɵɵdomElementEnd();
+  }
+  if (rf & 2) {
+    const letter_r3 = ctx.$implicit;
+    i0.ɵɵadvance();
+    i0.ɵɵtextInterpolate(letter_r3);
+  }
+}
+export class Greeter {
+  greeting = signal('world', ...(ngDevMode ? [{ debugName: 'greeting' }] : []));
+  letters = () => this.greeting().split('');
+  static ɵfac = function Greeter_Factory(__ngFactoryType__) {
+    return new (__ngFactoryType__ || Greeter)();
+  };
+  static ɵcmp = /*@__PURE__*/ i0.ɵɵdefineComponent({
+    type: Greeter,
+    selectors: [['app-greeter']],
+    decls: 7,
+    vars: 4,
+    consts: [
+      ['name', ''],
+      [1, 'field', 3, 'input', 'value'],
+    ],
+    template: function Greeter_Template(rf, ctx) {
+      if (rf & 1) {
+        const _r1 = i0.ɵɵgetCurrentView();
+        i0.ɵɵdomElementStart(0, 'input', 1, 0);
+        i0.ɵɵdomListener(
+          'input',
+          function Greeter_Template_input_input_0_listener() {
+            i0.ɵɵrestoreView(_r1);
+            const name_r2 = i0.ɵɵreference(1);
+            return i0.ɵɵresetView(ctx.greeting.set(name_r2.value));
+          }
+        );
+        i0.ɵɵdomElementEnd();
+        i0.ɵɵdomElementStart(2, 'p');
+        i0.ɵɵtext(3);
+        i0.ɵɵpipe(4, 'uppercase');
+        i0.ɵɵdomElementEnd();
+        i0.ɵɵrepeaterCreate(
+          5,
+          Greeter_For_6_Template,
+          2,
+          1,
+          'span',
+          null,
+          i0.ɵɵrepeaterTrackByIndex
+        );
+      }
+      if (rf & 2) {
+        i0.ɵɵdomProperty('value', ctx.greeting());
+        i0.ɵɵadvance(3);
+        i0.ɵɵtextInterpolate1(
+          'Hello, ',
+          i0.ɵɵpipeBind1(4, 2, ctx.greeting()),
+          '!'
+        );
+        i0.ɵɵadvance(2);
+        i0.ɵɵrepeater(ctx.letters());
+      }
+    },
+    dependencies: [UpperCasePipe],
+    encapsulation: 2,
+  });
+}
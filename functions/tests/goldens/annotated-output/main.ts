@@ -0,0 +1,18 @@
+import { Component, signal } from '@angular/core';
+import { UpperCasePipe } from '@angular/common';
+
+@Component({
+  selector: 'app-greeter',
+  imports: [UpperCasePipe],
+  template: `
+    <input #name class="field" [value]="greeting()" (input)="greeting.set(name.value)" />
+    <p>Hello, {{ greeting() | uppercase }}!</p>
+    @for (letter of letters(); track $index) {
+      <span>{{ letter }}</span>
+    }
+  `,
+})
+export class Greeter {
+  greeting = signal('world');
+  letters = () => this.greeting().split('');
+}
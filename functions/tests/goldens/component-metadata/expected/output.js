@@ -0,0 +1,119 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  HostBinding,
+  input,
+  output,
+} from '@angular/core';
+import * as i0 from '@angular/core';
+const App_Defer_4_DepsFn = () => [Avatar];
+function App_Defer_0_Template(rf, ctx) {
+  if (rf & 1) {
+    i0.ɵɵelement(0, 'app-avatar', 1);
+  }
+}
+function App_DeferLoading_1_Template(rf, ctx) {
+  if (rf & 1) {
+    i0.ɵɵelementStart(0, 'p');
+    i0.ɵɵtext(1, 'Loading\u2026');
+    i0.ɵɵelementEnd();
+  }
+}
+function App_DeferPlaceholder_2_Template(rf, ctx) {
+  if (rf & 1) {
+    i0.ɵɵelementStart(0, 'button');
+    i0.ɵɵtext(1, 'Show avatar');
+    i0.ɵɵelementEnd();
+  }
+}
+function App_DeferError_3_Template(rf, ctx) {
+  if (rf & 1) {
+    i0.ɵɵelementStart(0, 'p');
+    i0.ɵɵtext(1, 'Could not load the avatar');
+    i0.ɵɵelementEnd();
+  }
+}
+export class Avatar {
+  url = input.required(...(ngDevMode ? [{ debugName: 'url' }] : []));
+  name = input('', ...(ngDevMode ? [{ debugName: 'name' }] : []));
+  selected = output();
+  large = false;
+  static ɵfac = function Avatar_Factory(__ngFactoryType__) {
+    return new (__ngFactoryType__ || Avatar)();
+  };
+  static ɵcmp = /*@__PURE__*/ i0.ɵɵdefineComponent({
+    type: Avatar,
+    selectors: [['app-avatar']],
+    hostAttrs: [1, 'avatar'],
+    hostVars: 2,
+    hostBindings: function Avatar_HostBindings(rf, ctx) {
+      if (rf & 1) {
+        i0.ɵɵlistener('click', function Avatar_click_HostBindingHandler() {
+          return ctx.selected.emit(ctx.name());
+        });
+      }
+      if (rf & 2) {
+        i0.ɵɵclassProp('large', ctx.large);
+      }
+    },
+    inputs: { url: [1, 'url'], name: [1, 'name'] },
+    outputs: { selected: 'selected' },
+    decls: 1,
+    vars: 2,
+    consts: [[3, 'src', 'alt']],
+    template: function Avatar_Template(rf, ctx) {
+      if (rf & 1) {
+        i0.ɵɵdomElement(0, 'img', 0);
+      }
+      if (rf & 2) {
+        i0.ɵɵdomProperty('src', ctx.url(), i0.ɵɵsanitizeUrl)('alt', ctx.name());
+      }
+    },
+    encapsulation: 2,
+  });
+}
+export class App {
+  static ɵfac = function App_Factory(__ngFactoryType__) {
+    return new (__ngFactoryType__ || App)();
+  };
+  static ɵcmp = /*@__PURE__*/ i0.ɵɵdefineComponent({
+    type: App,
+    selectors: [['app-root']],
+    decls: 6,
+    vars: 0,
+    consts: [
+      [500, null],
+      ['url', '/me.png', 'name', 'Me'],
+    ],
+    template: function App_Template(rf, ctx) {
+      if (rf & 1) {
+        i0.ɵɵdomTemplate(0, App_Defer_0_Template, 1, 0)(
+          1,
+          App_DeferLoading_1_Template,
+          2,
+          0
+        )(2, App_DeferPlaceholder_2_Template, 2, 0)(
+          3,
+          App_DeferError_3_Template,
+          2,
+          0
+        );
+        i0.ɵɵdefer(
+          4,
+          0,
+          App_Defer_4_DepsFn,
+          1,
+          2,
+          3,
+          0,
+          null,
+          i0.ɵɵdeferEnableTimerScheduling
+        );
+        i0.ɵɵdeferOnTimer(2000);
+        i0.ɵɵdeferOnInteraction(0, -1);
+      }
+    },
+    encapsulation: 2,
+    changeDetection: 0,
+  });
+}
@@ -0,0 +1,31 @@
+import { ChangeDetectionStrategy, Component, HostBinding, input, output } from '@angular/core';
+
+@Component({
+  selector: 'app-avatar',
+  template: `<img [src]="url()" [alt]="name()" />`,
+  host: { class: 'avatar', '(click)': 'selected.emit(name())' },
+})
+export class Avatar {
+  url = input.required<string>();
+  name = input('');
+  selected = output<string>();
+  @HostBinding('class.large') large = false;
+}
+
+@Component({
+  selector: 'app-root',
+  imports: [Avatar],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  template: `
+    @defer (on interaction; on timer(2s)) {
+      <app-avatar url="/me.png" name="Me" />
+    } @placeholder {
+      <button>Show avatar</button>
+    } @loading (minimum 500ms) {
+      <p>Loading…</p>
+    } @error {
+      <p>Could not load the avatar</p>
+    }
+  `,
+})
+export class App {}
@@ -0,0 +1,62 @@
+import { Component, Input } from '@angular/core';
+import * as i0 from '@angular/core';
+export class Badge {
+  label = '';
+  static ɵfac = function Badge_Factory(__ngFactoryType__) {
+    return new (__ngFactoryType__ || Badge)();
+  };
+  static ɵcmp = /*@__PURE__*/ i0.ɵɵdefineComponent({
+    type: Badge,
+    selectors: [['app-badge']],
+    inputs: { label: 'label' },
+    decls: 2,
+    vars: 1,
+    consts: [[1, 'badge']],
+    template: function Badge_Template(rf, ctx) {
+      if (rf & 1) {
+        i0.ɵɵdomElementStart(0, 'span', 0);
+        i0.ɵɵtext(1);
+        i0.ɵɵdomElementEnd();
+      }
+      if (rf & 2) {
+        i0.ɵɵadvance();
+        i0.ɵɵtextInterpolate(ctx.label);
+      }
+    },
+    styles: ['.badge[_ngcontent-%COMP%] { font-weight: bold; }'],
+  });
+}
+(() => {
+  (typeof ngDevMode === 'undefined' || ngDevMode) &&
+    i0.ɵsetClassMetadata(
+      Badge,
+      [
+        {
+          type: Component,
+          args: [
+            {
+              selector: 'app-badge',
+              template: '<span class="badge">{{ label }}</span>',
+              styles: ['.badge { font-weight: bold; }'],
+            },
+          ],
+        },
+      ],
+      null,
+      {
+        label: [
+          {
+            type: Input,
+          },
+        ],
+      }
+    );
+})();
+(() => {
+  (typeof ngDevMode === 'undefined' || ngDevMode) &&
+    i0.ɵsetClassDebugInfo(Badge, {
+      className: 'Badge',
+      filePath: 'main.ts',
+      lineNumber: 8,
+    });
+})();
@@ -0,0 +1,10 @@
+import { Component, Input } from '@angular/core';
+
+@Component({
+  selector: 'app-badge',
+  template: '<span class="badge">{{ label }}</span>',
+  styles: ['.badge { font-weight: bold; }'],
+})
+export class Badge {
+  @Input() label = '';
+}
@@ -0,0 +1,8 @@
+import { Component } from '@angular/core';
+
+@Component({
+  selector: 'app-root',
+  template: '<p class="c1">Generated styles</p>',
+  styleUrls: ['./app.scss'],
+})
+export class App {}
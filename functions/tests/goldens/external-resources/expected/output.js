@@ -0,0 +1,27 @@
+import { Component } from '@angular/core';
+import * as i0 from '@angular/core';
+export class Card {
+  title = 'Golden';
+  static ɵfac = function Card_Factory(__ngFactoryType__) {
+    return new (__ngFactoryType__ || Card)();
+  };
+  static ɵcmp = /*@__PURE__*/ i0.ɵɵdefineComponent({
+    type: Card,
+    selectors: [['app-card']],
+    decls: 3,
+    vars: 1,
+    consts: [[1, 'card']],
+    template: function Card_Template(rf, ctx) {
+      if (rf & 1) {
+        i0.ɵɵdomElementStart(0, 'article', 0)(1, 'h2');
+        i0.ɵɵtext(2);
+        i0.ɵɵdomElementEnd()();
+      }
+      if (rf & 2) {
+        i0.ɵɵadvance(2);
+        i0.ɵɵtextInterpolate(ctx.title);
+      }
+    },
+    styles: ['.card[_ngcontent-%COMP%] {\n  padding: 1rem;\n}'],
+  });
+}
@@ -0,0 +1,10 @@
+import { Component } from '@angular/core';
+
+@Component({
+  selector: 'app-card',
+  templateUrl: './card.html',
+  styleUrl: './card.css',
+})
+export class Card {
+  title = 'Golden';
+}
@@ -0,0 +1,10 @@
+import { Component } from '@angular/core';
+import { Chart } from 'chart.js';
+
+@Component({
+  selector: 'app-chart',
+  template: '<canvas></canvas>',
+})
+export class ChartView {
+  chart?: Chart;
+}
@@ -0,0 +1,10 @@
+import { Component } from '@angular/core';
+import { greeting } from './greeting';
+
+@Component({
+  selector: 'app-root',
+  template: '<p>{{ message }}</p>',
+})
+export class App {
+  message = greeting;
+}
@@ -0,0 +1,34 @@
+// main.ts
+import { Component } from '@angular/core';
+import { formatName } from './shared/user';
+import * as i0 from '@angular/core';
+export class UserCard {
+  user = { first: 'Ada', last: 'Lovelace' };
+  name = formatName(this.user);
+  static ɵfac = function UserCard_Factory(__ngFactoryType__) {
+    return new (__ngFactoryType__ || UserCard)();
+  };
+  static ɵcmp = /*@__PURE__*/ i0.ɵɵdefineComponent({
+    type: UserCard,
+    selectors: [['app-user']],
+    decls: 2,
+    vars: 1,
+    template: function UserCard_Template(rf, ctx) {
+      if (rf & 1) {
+        i0.ɵɵdomElementStart(0, 'p');
+        i0.ɵɵtext(1);
+        i0.ɵɵdomElementEnd();
+      }
+      if (rf & 2) {
+        i0.ɵɵadvance();
+        i0.ɵɵtextInterpolate(ctx.name);
+      }
+    },
+    encapsulation: 2,
+  });
+}
+
+// shared/user.ts
+export function formatName(user) {
+  return `${user.first} ${user.last}`;
+}
@@ -0,0 +1,11 @@
+import { Component } from '@angular/core';
+import { User, formatName } from './shared/user';
+
+@Component({
+  selector: 'app-user',
+  template: '<p>{{ name }}</p>',
+})
+export class UserCard {
+  user: User = { first: 'Ada', last: 'Lovelace' };
+  name = formatName(this.user);
+}
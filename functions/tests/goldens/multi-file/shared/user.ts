@@ -0,0 +1,8 @@
+export interface User {
+  first: string;
+  last: string;
+}
+
+export function formatName(user: User): string {
+  return `${user.first} ${user.last}`;
+}
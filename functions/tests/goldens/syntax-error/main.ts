@@ -0,0 +1,9 @@
+import { Component } from '@angular/core';
+
+@Component({
+  selector: 'app-root',
+  template: '<p>{{ title }}</p>',
+})
+export class App {
+  title = 'Unclosed;
+}
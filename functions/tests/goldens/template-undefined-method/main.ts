@@ -0,0 +1,7 @@
+import { Component } from '@angular/core';
+
+@Component({
+  selector: 'app-test',
+  template: '<button (click)="undefinedMethod()">Click</button>',
+})
+export class TestComponent {}
@@ -0,0 +1,7 @@
+import { Component } from '@angular/core';
+
+@Component({
+  selector: 'app-test',
+  template: '<div>{{ undefinedProp }}</div>',
+})
+export class TestComponent {}
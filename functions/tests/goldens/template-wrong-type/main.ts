@@ -0,0 +1,9 @@
+import { Component } from '@angular/core';
+
+@Component({
+  selector: 'app-test',
+  template: '<div>{{ count.toUpperCase() }}</div>',
+})
+export class TestComponent {
+  count = 42;
+}
@@ -0,0 +1,97 @@
+import { Component, input } from '@angular/core';
+import * as i0 from '@angular/core';
+const _forTrack0 = ($index, $item) => $item.id;
+function Tasks_Conditional_0_Template(rf, ctx) {
+  if (rf & 1) {
+    i0.ɵɵdomElementStart(0, 'p');
+    i0.ɵɵtext(1, 'Nothing to do');
+    i0.ɵɵdomElementEnd();
+  }
+}
+function Tasks_Conditional_1_For_2_Template(rf, ctx) {
+  if (rf & 1) {
+    i0.ɵɵdomElementStart(0, 'li');
+    i0.ɵɵtext(1);
+    i0.ɵɵdomElementEnd();
+  }
+  if (rf & 2) {
+    const task_r1 = ctx.$implicit;
+    i0.ɵɵclassProp('done', task_r1.done);
+    i0.ɵɵadvance();
+    i0.ɵɵtextInterpolate(task_r1.title);
+  }
+}
+function Tasks_Conditional_1_Template(rf, ctx) {
+  if (rf & 1) {
+    i0.ɵɵdomElementStart(0, 'ul');
+    i0.ɵɵrepeaterCreate(
+      1,
+      Tasks_Conditional_1_For_2_Template,
+      2,
+      3,
+      'li',
+      0,
+      _forTrack0
+    );
+    i0.ɵɵdomElementEnd();
+  }
+  if (rf & 2) {
+    const ctx_r1 = i0.ɵɵnextContext();
+    i0.ɵɵadvance();
+    i0.ɵɵrepeater(ctx_r1.tasks());
+  }
+}
+function Tasks_Case_2_Template(rf, ctx) {
+  if (rf & 1) {
+    i0.ɵɵdomElementStart(0, 'span');
+    i0.ɵɵtext(1, 'Done only');
+    i0.ɵɵdomElementEnd();
+  }
+}
+function Tasks_Case_3_Template(rf, ctx) {
+  if (rf & 1) {
+    i0.ɵɵdomElementStart(0, 'span');
+    i0.ɵɵtext(1, 'All');
+    i0.ɵɵdomElementEnd();
+  }
+}
+export class Tasks {
+  tasks = input([], ...(ngDevMode ? [{ debugName: 'tasks' }] : []));
+  filter = input('all', ...(ngDevMode ? [{ debugName: 'filter' }] : []));
+  static ɵfac = function Tasks_Factory(__ngFactoryType__) {
+    return new (__ngFactoryType__ || Tasks)();
+  };
+  static ɵcmp = /*@__PURE__*/ i0.ɵɵdefineComponent({
+    type: Tasks,
+    selectors: [['app-tasks']],
+    inputs: { tasks: [1, 'tasks'], filter: [1, 'filter'] },
+    decls: 4,
+    vars: 2,
+    consts: [[3, 'done']],
+    template: function Tasks_Template(rf, ctx) {
+      if (rf & 1) {
+        i0.ɵɵconditionalCreate(0, Tasks_Conditional_0_Template, 2, 0, 'p')(
+          1,
+          Tasks_Conditional_1_Template,
+          3,
+          0,
+          'ul'
+        );
+        i0.ɵɵconditionalCreate(2, Tasks_Case_2_Template, 2, 0, 'span')(
+          3,
+          Tasks_Case_3_Template,
+          2,
+          0,
+          'span'
+        );
+      }
+      if (rf & 2) {
+        let tmp_1_0;
+        i0.ɵɵconditional(ctx.tasks().length === 0 ? 0 : 1);
+        i0.ɵɵadvance(2);
+        i0.ɵɵconditional((tmp_1_0 = ctx.filter()) === 'done' ? 2 : 3);
+      }
+    },
+    encapsulation: 2,
+  });
+}
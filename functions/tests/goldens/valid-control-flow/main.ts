@@ -0,0 +1,30 @@
+import { Component, input } from '@angular/core';
+
+interface Task {
+  id: number;
+  title: string;
+  done: boolean;
+}
+
+@Component({
+  selector: 'app-tasks',
+  template: `
+    @if (tasks().length === 0) {
+      <p>Nothing to do</p>
+    } @else {
+      <ul>
+        @for (task of tasks(); track task.id) {
+          <li [class.done]="task.done">{{ task.title }}</li>
+        }
+      </ul>
+    }
+    @switch (filter()) {
+      @case ('done') { <span>Done only</span> }
+      @default { <span>All</span> }
+    }
+  `,
+})
+export class Tasks {
+  tasks = input<Task[]>([]);
+  filter = input<'all' | 'done'>('all');
+}
@@ -0,0 +1,43 @@
+import { Component, computed, signal } from '@angular/core';
+import * as i0 from '@angular/core';
+export class Counter {
+  count = signal(0, ...(ngDevMode ? [{ debugName: 'count' }] : []));
+  doubled = computed(
+    () => this.count() * 2,
+    ...(ngDevMode ? [{ debugName: 'doubled' }] : [])
+  );
+  increment() {
+    this.count.update(count => count + 1);
+  }
+  static ɵfac = function Counter_Factory(__ngFactoryType__) {
+    return new (__ngFactoryType__ || Counter)();
+  };
+  static ɵcmp = /*@__PURE__*/ i0.ɵɵdefineComponent({
+    type: Counter,
+    selectors: [['app-counter']],
+    decls: 4,
+    vars: 2,
+    consts: [[3, 'click']],
+    template: function Counter_Template(rf, ctx) {
+      if (rf & 1) {
+        i0.ɵɵdomElementStart(0, 'p');
+        i0.ɵɵtext(1);
+        i0.ɵɵdomElementEnd();
+        i0.ɵɵdomElementStart(2, 'button', 0);
+        i0.ɵɵdomListener(
+          'click',
+          function Counter_Template_button_click_2_listener() {
+            return ctx.increment();
+          }
+        );
+        i0.ɵɵtext(3, '+1');
+        i0.ɵɵdomElementEnd();
+      }
+      if (rf & 2) {
+        i0.ɵɵadvance();
+        i0.ɵɵtextInterpolate2('', ctx.count(), ' \u00D7 2 = ', ctx.doubled());
+      }
+    },
+    encapsulation: 2,
+  });
+}
@@ -0,0 +1,17 @@
+import { Component, computed, signal } from '@angular/core';
+
+@Component({
+  selector: 'app-counter',
+  template: `
+    <p>{{ count() }} × 2 = {{ doubled() }}</p>
+    <button (click)="increment()">+1</button>
+  `,
+})
+export class Counter {
+  count = signal(0);
+  doubled = computed(() => this.count() * 2);
+
+  increment() {
+    this.count.update(count => count + 1);
+  }
+}
@@ -0,0 +1,75 @@
+import { spawn } from 'child_process';
+import * as path from 'path';
+
+export interface HandlerRequest {
+  // POST unless given
+  method?: string;
+  // Header names in lower case, as Node delivers them
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface HandlerResponse {
+  status: number;
+  // Lower-cased names
+  headers: Record<string, string>;
+  body: any;
+}
+
+const HANDLER_MODULE = path.resolve(__dirname, '../lib/angular-compiler.js');
+
+// Runs in a plain Node process: jest's module loader can't load @angular/compiler-cli's ESM bundles,
+// but Node's own require can, so the built handler (`npm run build`, run by `pretest`) is used there
+const RUNNER = `
+const handler = require(process.argv[1])[process.argv[2]];
+process.once('message', async requests => {
+  const responses = [];
+  for (const { method = 'POST', headers = {}, body } of requests) {
+    responses.push(await new Promise((resolve, reject) => {
+      let status = 200;
+      const responseHeaders = {};
+      // Text written by streaming responses, which end without a body of their own
+      let written = '';
+      const res = {
+        set: (name, value) => { responseHeaders[name.toLowerCase()] = value; return res; },
+        setHeader: (name, value) => res.set(name, value),
+        getHeader: name => responseHeaders[name.toLowerCase()],
+        status: code => { status = code; return res; },
+        json: body => resolve({ status, headers: responseHeaders, body }),
+        send: body => resolve({ status, headers: responseHeaders, body }),
+        flushHeaders: () => {},
+        write: chunk => { written += chunk; return true; },
+        end: () => resolve({ status, headers: responseHeaders, body: written || undefined }),
+      };
+      const req = { method, headers, query: {}, body, ip: '127.0.0.1', get: name => headers[name.toLowerCase()] };
+      Promise.resolve(handler(req, res)).catch(reject);
+    }));
+  }
+  process.send(responses, () => process.exit(0));
+});
+`;
+
+// Sends each request to the compile handler in turn, sharing one process and its caches;
+// `env` adds to the environment the handler is loaded in
+export function callCompileHandler(requests: HandlerRequest[], env: NodeJS.ProcessEnv = {}): Promise<HandlerResponse[]> {
+  return callHandler('compileAngular', requests, env);
+}
+
+// The same for the batch handler
+export function callBatchHandler(requests: HandlerRequest[], env: NodeJS.ProcessEnv = {}): Promise<HandlerResponse[]> {
+  return callHandler('compileAngularBatch', requests, env);
+}
+
+function callHandler(exportName: string, requests: HandlerRequest[], env: NodeJS.ProcessEnv): Promise<HandlerResponse[]> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ['-e', RUNNER, HANDLER_MODULE, exportName], {
+      env: { ...process.env, ...env },
+      // The firebase logger writes to stdout, so responses come back over IPC
+      stdio: ['ignore', 'ignore', 'inherit', 'ipc'],
+    });
+    child.once('message', responses => resolve(responses as HandlerResponse[]));
+    child.once('error', reject);
+    child.once('exit', code => reject(new Error(`Compile handler exited with code ${code}`)));
+    child.send(requests);
+  });
+}
@@ -0,0 +1,33 @@
+import { callCompileHandler, HandlerResponse } from './handler';
+
+describe('health report', () => {
+  let before: HandlerResponse;
+  let after: HandlerResponse;
+
+  beforeAll(async () => {
+    const body = { files: { 'main.ts': "import { Component } from '@angular/core';\n@Component({ template: '' })\nexport class App {}" } };
+    [before, , , after] = await callCompileHandler([{ method: 'GET' }, { body }, { body }, { method: 'GET' }]);
+  }, 60_000);
+
+  it('reports versions and pre-warming', () => {
+    expect(before.status).toBe(200);
+    expect(after.body.versions).toEqual(
+      expect.objectContaining({ angular: expect.any(String), typescript: expect.any(String) })
+    );
+    expect(after.body.preWarm.state).toBe('done');
+    expect(after.body.preWarm.failedModules).toEqual([]);
+    expect(after.body.status).toBe('ok');
+  });
+
+  it('counts compilations, cache hits and latency', () => {
+    expect(before.body.compilations.total).toBe(0);
+    expect(before.body.compilations.recent.latencyMs).toBeNull();
+
+    const { compilations, caches } = after.body;
+    expect(compilations.total).toBe(2);
+    expect(compilations.cacheHits).toEqual({ memory: 1 });
+    expect(compilations.recent.cacheHitRate).toBe(0.5);
+    expect(compilations.recent.latencyMs.p50).toBeLessThanOrEqual(compilations.recent.latencyMs.max);
+    expect(caches.compilation).toEqual(expect.objectContaining({ entries: 1, hits: 1, misses: 1, hitRate: 0.5 }));
+  });
+});
@@ -0,0 +1,89 @@
+import { annotateInstructions } from '../src/instruction-annotations';
+
+const OUTPUT = `import * as i0 from '@angular/core';
+function App_For_3_Template(rf, ctx) {
+  if (rf & 1) {
+    i0.ɵɵtext(0);
+  }
+  if (rf & 2) {
+    i0.ɵɵtextInterpolate1(' ', ctx.$implicit, ' ');
+  }
+}
+export class App {
+  static ɵcmp = /*@__PURE__*/ i0.ɵɵdefineComponent({
+    type: App,
+    selectors: [['app-root']],
+    decls: 5,
+    vars: 1,
+    consts: [['type', 'text', 1, 'field', 3, 'value'], ['nameInput', '']],
+    template: function App_Template(rf, ctx) {
+      if (rf & 1) {
+        i0.ɵɵelementStart(0, 'input', 0, 1);
+        i0.ɵɵlistener('input', function App_Template_input_input_0_listener() { return ctx.save(); });
+        i0.ɵɵelementEnd();
+        i0.ɵɵrepeaterCreate(2, App_For_3_Template, 1, 1, null, null, i0.ɵɵrepeaterTrackByIndex);
+      }
+      if (rf & 2) {
+        i0.ɵɵproperty('value', ctx.name);
+        i0.ɵɵadvance(2);
+        i0.ɵɵrepeater(ctx.items);
+      }
+    },
+    encapsulation: 2,
+  });
+}
+`;
+
+describe('annotateInstructions', () => {
+  const annotations = annotateInstructions(OUTPUT);
+  const explanationOf = (label: string) => annotations.find(a => a.label === label)?.explanation;
+
+  it('explains each instruction call at its name, in output order', () => {
+    expect(annotations.map(a => a.label)).toEqual([
+      'ɵɵtext', 'ɵɵtextInterpolate1', 'ɵɵdefineComponent', 'decls', 'vars', 'consts',
+      'ɵɵelementStart', 'ɵɵlistener', 'ɵɵelementEnd', 'ɵɵrepeaterCreate', 'ɵɵrepeaterTrackByIndex',
+      'ɵɵproperty', 'ɵɵadvance', 'ɵɵrepeater',
+    ]);
+    for (const { start, end, label } of annotations) {
+      expect(OUTPUT.slice(start, end)).toBe(label);
+    }
+  });
+
+  it('fills in the arguments of the call', () => {
+    expect(explanationOf('ɵɵelementStart')).toBe(
+      'Creation: creates the <input> element in slot 0; the nodes that follow are its children until ɵɵelementEnd. ' +
+      'Its attributes are consts[0]. Its local references are consts[1].'
+    );
+    expect(explanationOf('ɵɵadvance')).toMatch(/^Update: moves 2 slots forward/);
+    expect(explanationOf('ɵɵproperty')).toMatch(/sets the "value" property/);
+    // Numbered variants share the explanation of their family
+    expect(explanationOf('ɵɵtextInterpolate1')).toMatch(/^Update: sets the text/);
+  });
+
+  it('breaks down the decls, vars and consts of components', () => {
+    expect(explanationOf('decls')!.split('\n')).toEqual([
+      expect.stringMatching(/^The template creates 5 nodes/),
+      '0: <input>',
+      '1: local reference #nameInput',
+      '2: @for block App_For_3_Template',
+      '@for and @defer blocks use the slots after them for their own bookkeeping.',
+    ]);
+    expect(explanationOf('vars')).toMatch(/^1 binding slot after the nodes/);
+    expect(explanationOf('consts')!.split('\n').slice(1)).toEqual([
+      '0: type="text"; classes: field; bindings: value',
+      '1: nameInput',
+    ]);
+  });
+
+  it('works on minified output and ignores code without instructions', () => {
+    const minified = 'import*as e from"@angular/core";class t{static ɵcmp=e.ɵɵdefineComponent({type:t,decls:1,vars:0,template:function(n,o){1&n&&e.ɵɵtext(0,"Hi")}})}';
+
+    expect(annotateInstructions(minified).map(a => [a.label, minified.slice(a.start, a.end)])).toEqual([
+      ['ɵɵdefineComponent', 'ɵɵdefineComponent'],
+      ['decls', 'decls'],
+      ['vars', 'vars'],
+      ['ɵɵtext', 'ɵɵtext'],
+    ]);
+    expect(annotateInstructions('export const answer = 42;')).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import { buildCompiledOutput } from '../src/compile-output';
+import { parseOutputOptions, serializeOutputOptions } from '../src/output-options';
+import { callCompileHandler } from './handler';
+
+const EMITTED = [
+  'export class App {}',
+  '(() => { (typeof ngDevMode === "undefined" || ngDevMode) && i0.ɵsetClassMetadata(App, [], null, null); })();',
+  '',
+].join('\n');
+
+const build = (output: Parameters<typeof buildCompiledOutput>[0]['output']) =>
+  buildCompiledOutput({
+    projectFiles: { 'main.ts': '' },
+    compiledFiles: { 'main.ts': EMITTED },
+    compiledSourceMaps: {},
+    root: '/project',
+    output,
+    format: async code => `/* formatted */\n${code}`,
+    minify: async code => code.replace(/\s+/g, ''),
+  });
+
+describe('parseOutputOptions', () => {
+  it('accepts a missing object and boolean options', () => {
+    expect(parseOutputOptions(undefined)).toEqual({ options: {} });
+    expect(parseOutputOptions({ keepDevModeBlocks: true, minify: false })).toEqual({
+      options: { keepDevModeBlocks: true, minify: false },
+    });
+  });
+
+  it('rejects unknown options and non-boolean values', () => {
+    expect(parseOutputOptions([])).toEqual({ error: 'Output options must be an object' });
+    expect(parseOutputOptions({ mangle: true })).toEqual({ error: 'Unsupported output option: mangle' });
+    expect(parseOutputOptions({ format: 'yes' })).toEqual({
+      error: 'Invalid value for output option format: expected true or false',
+    });
+  });
+});
+
+describe('serializeOutputOptions', () => {
+  it('gives equivalent options the same key', () => {
+    expect(serializeOutputOptions({})).toBe(serializeOutputOptions({ keepDevModeBlocks: false, format: true }));
+    expect(serializeOutputOptions({ minify: true, keepDevModeBlocks: true })).toBe(serializeOutputOptions({ minify: true }));
+    expect(serializeOutputOptions({ format: false })).not.toBe(serializeOutputOptions({}));
+  });
+});
+
+describe('buildCompiledOutput output options', () => {
+  it('strips dev-mode blocks and formats by default', async () => {
+    const { compiledOutput, outputSizes } = await build({});
+
+    expect(compiledOutput).toMatch(/^\/\* formatted \*\/\nexport class App \{\}\s*$/);
+    expect(outputSizes).toBeUndefined();
+  });
+
+  it('keeps dev-mode blocks and skips formatting on request', async () => {
+    const { compiledOutput } = await build({ keepDevModeBlocks: true, format: false });
+
+    expect(compiledOutput).toBe(EMITTED);
+  });
+
+  it('minifies without dev-mode blocks and reports the size', async () => {
+    const { compiledOutput, outputSizes } = await build({ minify: true, keepDevModeBlocks: true });
+
+    expect(compiledOutput).toBe('exportclassApp{}');
+    expect(outputSizes).toEqual({ 'main.ts': 16 });
+  });
+});
+
+describe('compile handler output options', () => {
+  const files = {
+    'main.ts': [
+      "import { Component } from '@angular/core';",
+      '',
+      "@Component({ selector: 'app-root', template: '<h1>{{ title }}</h1>' })",
+      "export class App { title = 'Hello'; }",
+    ].join('\n'),
+  };
+
+  it('returns production-style output with its size when minifying', async () => {
+    const [{ status, body }] = await callCompileHandler([{ body: { files, output: { minify: true } } }]);
+
+    expect(status).toBe(200);
+    expect(body.compiledOutput).not.toContain('ngDevMode');
+    expect(body.compiledOutput).not.toContain('\n\n');
+    expect(body.outputSizes).toEqual({ 'main.ts': Buffer.byteLength(body.compiledOutput) });
+  }, 60_000);
+
+  it('rejects unknown output options', async () => {
+    const [{ status, body }] = await callCompileHandler([{ body: { files, output: { minify: 'yes' } } }]);
+
+    expect(status).toBe(400);
+    expect(body.code).toBe('INVALID_INPUT');
+  }, 60_000);
+});
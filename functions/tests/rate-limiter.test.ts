@@ -0,0 +1,36 @@
+import { TokenBucketRateLimiter } from '../src/rate-limiter';
+
+describe('TokenBucketRateLimiter', () => {
+  it('allows a burst up to the capacity, then refuses until tokens refill', () => {
+    const limiter = new TokenBucketRateLimiter({ capacity: 3, refillPerSecond: 0.5 });
+
+    expect([1, 2, 3].map(() => limiter.take('a', 0).allowed)).toEqual([true, true, true]);
+    expect(limiter.take('a', 0)).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 2 });
+
+    expect(limiter.take('a', 1000)).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+    expect(limiter.take('a', 2000)).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 0 });
+  });
+
+  it('keeps a separate bucket per client', () => {
+    const limiter = new TokenBucketRateLimiter({ capacity: 1, refillPerSecond: 1 });
+
+    expect(limiter.take('a', 0).allowed).toBe(true);
+    expect(limiter.take('a', 0).allowed).toBe(false);
+    expect(limiter.take('b', 0).allowed).toBe(true);
+  });
+
+  it('never refills beyond the capacity', () => {
+    const limiter = new TokenBucketRateLimiter({ capacity: 2, refillPerSecond: 10 });
+
+    limiter.take('a', 0);
+    expect(limiter.take('a', 60_000).remaining).toBe(1);
+  });
+
+  it('starts forgotten clients with a full bucket', () => {
+    const limiter = new TokenBucketRateLimiter({ capacity: 1, refillPerSecond: 0.001, maxClients: 1 });
+
+    limiter.take('a', 0);
+    limiter.take('b', 0);
+    expect(limiter.take('a', 0).allowed).toBe(true);
+  });
+});
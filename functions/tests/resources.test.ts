@@ -0,0 +1,68 @@
+import { callCompileHandler } from './handler';
+
+// Deep enough to climb out of the project from wherever the tests run
+const outsideProject = '../'.repeat(20);
+
+const componentWith = (metadata: string) =>
+  `import { Component } from '@angular/core';\n\n@Component({ selector: 'app-root', ${metadata} })\nexport class App {}\n`;
+
+describe('templates and stylesheets', () => {
+  it('are read from the project, partials included', async () => {
+    const [{ body }] = await callCompileHandler([{
+      body: {
+        files: {
+          'main.ts': componentWith("templateUrl: './app.html', styleUrls: ['./app.scss']"),
+          'app.html': '<p>Hello</p>',
+          'app.scss': "@use 'theme';\np { color: theme.$accent; }",
+          '_theme.scss': '$accent: rebeccapurple;',
+        },
+      },
+    }]);
+
+    expect(body.hasDiagnostics).toBe(false);
+    expect(body.compiledOutput).toContain("'Hello'");
+    expect(body.compiledOutput).toContain('rebeccapurple');
+  }, 60_000);
+
+  it('are never read from outside the project', async () => {
+    const [{ body }] = await callCompileHandler([{
+      body: { files: { 'main.ts': componentWith(`templateUrl: '${outsideProject}etc/hostname'`) } },
+    }]);
+
+    expect(body.hasDiagnostics).toBe(true);
+    expect(body.compiledOutput).not.toContain('ɵɵtext');
+    expect(body.diagnostics[0]).toMatchObject({ file: 'main.ts', source: 'angular' });
+  }, 60_000);
+
+  it('cannot @use stylesheets from outside the project', async () => {
+    // tests/fixtures/_outside.scss exists on disk, but isn't part of the project
+    const [{ status, body }] = await callCompileHandler([{
+      body: {
+        files: {
+          'main.ts': componentWith("template: '', styleUrls: ['./app.scss']"),
+          'app.scss': `@use '${outsideProject}${__dirname.slice(1)}/fixtures/outside';`,
+        },
+      },
+    }]);
+
+    expect(JSON.stringify(body)).not.toContain('outside-the-project');
+    // Same as a partial missing from the project
+    expect(status).toBe(400);
+    expect(body).toMatchObject({ code: 'INVALID_INPUT', error: expect.stringMatching(/^app\.scss:1:1: Can't find stylesheet to import/) });
+  }, 60_000);
+
+  it('report stylesheets that fail to compile as invalid input', async () => {
+    const [{ status, body }] = await callCompileHandler([{
+      body: {
+        files: {
+          'main.ts': componentWith("template: '', styleUrls: ['./app.scss']"),
+          'app.scss': "@use 'theme';\np { color: theme.$accent; }",
+          '_theme.scss': '$accent: $missing;',
+        },
+      },
+    }]);
+
+    expect(status).toBe(400);
+    expect(body).toEqual({ code: 'INVALID_INPUT', error: '_theme.scss:1:10: Undefined variable.' });
+  }, 60_000);
+});
@@ -0,0 +1,74 @@
+import { callCompileHandler } from './handler';
+
+const projectWith = (template: string, title = 'Hello') => ({
+  'main.ts': [
+    "import { Component } from '@angular/core';",
+    '',
+    "@Component({ selector: 'app-root', templateUrl: './app.html' })",
+    `export class App { title = '${title}'; }`,
+  ].join('\n'),
+  'app.html': template,
+});
+
+const styledProjectWith = (stylesheet: string, color: string) => ({
+  'main.ts': [
+    "import { Component } from '@angular/core';",
+    '',
+    `@Component({ selector: 'app-root', template: '<p>Hi</p>', styleUrls: ['./${stylesheet}'] })`,
+    'export class App {}',
+  ].join('\n'),
+  [stylesheet]: stylesheet.endsWith('.scss') ? `$color: ${color};\np { color: $color; }` : `p { color: ${color}; }`,
+});
+
+describe('session programs', () => {
+  it('are reused by the next compilation of the same session only', async () => {
+    const [first, second, otherSession] = await callCompileHandler([
+      { body: { files: projectWith('<h1>{{ title }}</h1>'), sessionId: 'reuse' } },
+      { body: { files: projectWith('<h1>{{ title }}</h1>', 'Changed'), sessionId: 'reuse' } },
+      { body: { files: projectWith('<h1>{{ title }}</h1>', 'Other'), sessionId: 'another' } },
+    ]);
+
+    expect(first.body.timings.incremental).toBe(0);
+    expect(second.body.timings.incremental).toBe(1);
+    expect(second.body.compiledOutput).toContain("title = 'Changed'");
+    expect(otherSession.body.timings.incremental).toBe(0);
+  }, 120_000);
+
+  it('start over when the compiler options change, and reuse the new program after that', async () => {
+    const [, changedOptions, sameOptions] = await callCompileHandler([
+      { body: { files: projectWith('<h1>{{ title }}</h1>'), sessionId: 'options' } },
+      { body: { files: projectWith('<h1>{{ title }}</h1>', 'A'), options: { target: 'ES2017' }, sessionId: 'options' } },
+      { body: { files: projectWith('<h1>{{ title }}</h1>', 'B'), options: { target: 'ES2017' }, sessionId: 'options' } },
+    ]);
+
+    expect(changedOptions.body.timings.incremental).toBe(0);
+    // ES2017 has no class fields, so the field moves into the constructor
+    expect(changedOptions.body.compiledOutput).toContain("this.title = 'A'");
+    expect(sameOptions.body.timings.incremental).toBe(1);
+    expect(sameOptions.body.compiledOutput).toContain("this.title = 'B'");
+  }, 120_000);
+
+  it('pick up edits to external templates', async () => {
+    const [first, second] = await callCompileHandler([
+      { body: { files: projectWith('<h1>{{ title.foo }}</h1>'), sessionId: 'templates' } },
+      { body: { files: projectWith('<h1>{{ title.length }}</h1>'), sessionId: 'templates' } },
+    ]);
+
+    expect(first.body.hasDiagnostics).toBe(true);
+    expect(second.body.timings.incremental).toBe(1);
+    expect(second.body.hasDiagnostics).toBe(false);
+    expect(second.body.compiledOutput).toContain('ctx.title.length');
+  }, 120_000);
+
+  it.each(['app.css', 'app.scss'])('pick up edits to external %s stylesheets', async stylesheet => {
+    const [first, second] = await callCompileHandler([
+      { body: { files: styledProjectWith(stylesheet, 'red'), sessionId: 'styles' } },
+      { body: { files: styledProjectWith(stylesheet, 'blue'), sessionId: 'styles' } },
+    ]);
+
+    expect(first.body.compiledOutput).toContain('color: red');
+    expect(second.body.timings.incremental).toBe(1);
+    expect(second.body.compiledOutput).toContain('color: blue');
+    expect(second.body.compiledOutput).not.toContain('color: red');
+  }, 120_000);
+});
@@ -1,5 +0,0 @@
-describe('Simple Test', () => {
-  it('should pass a basic test', () => {
-    expect(true).toBeTruthy();
-  });
-});
\ No newline at end of file
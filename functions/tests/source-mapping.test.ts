@@ -0,0 +1,142 @@
+import { buildSourceMappings, decodeMappings } from '../src/source-mapping';
+import { callCompileHandler } from './handler';
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Source map `mappings` for [generatedColumn, sourceLine, sourceColumn] segments per generated line (all in source 0)
+function encodeMappings(lines: Array<Array<[number, number, number]>>): string {
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  return lines.map(segments => {
+    let generatedColumn = 0;
+    return segments.map(([column, line, sourceCol]) => {
+      const encoded = [column - generatedColumn, 0, line - sourceLine, sourceCol - sourceColumn].map(encodeVlq).join('');
+      [generatedColumn, sourceLine, sourceColumn] = [column, line, sourceCol];
+      return encoded;
+    }).join(',');
+  }).join(';');
+}
+
+function encodeVlq(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let encoded = '';
+  do {
+    const digit = vlq & 31;
+    vlq >>>= 5;
+    encoded += BASE64_CHARS[vlq > 0 ? digit | 32 : digit];
+  } while (vlq > 0);
+  return encoded;
+}
+
+describe('decodeMappings', () => {
+  it('decodes relative VLQ segments into absolute positions per line', () => {
+    expect(decodeMappings('AAAA,IAAC;AACA,KAAK;;')).toEqual([
+      [{ generatedColumn: 0, sourceIndex: 0, sourceLine: 0, sourceColumn: 0 }, { generatedColumn: 4, sourceIndex: 0, sourceLine: 0, sourceColumn: 1 }],
+      [{ generatedColumn: 0, sourceIndex: 0, sourceLine: 1, sourceColumn: 1 }, { generatedColumn: 5, sourceIndex: 0, sourceLine: 1, sourceColumn: 6 }],
+      [],
+      [],
+    ]);
+  });
+
+  it('decodes multi-digit and negative values and skips segments without a source', () => {
+    expect(decodeMappings('A,gBAAkB,CAAL')).toEqual([[
+      { generatedColumn: 16, sourceIndex: 0, sourceLine: 0, sourceColumn: 18 },
+      { generatedColumn: 17, sourceIndex: 0, sourceLine: 0, sourceColumn: 13 },
+    ]]);
+  });
+});
+
+describe('buildSourceMappings', () => {
+  const template = '<p>Hi</p>\n<b>{{ name }}</b>';
+  // Emitted instructions, with a call in a range that was removed before formatting
+  const emittedLines = [
+    'i0.ɵɵelementStart(0, "p");',
+    'i0.ɵɵtext(1, "Hi");',
+    'i0.ɵɵtext(9, "removed");',
+    'i0.ɵɵtextInterpolate(ctx.name);',
+  ];
+  const emittedCode = emittedLines.join('\n');
+  const lineStart = (line: number) => emittedLines.slice(0, line).reduce((offset, text) => offset + text.length + 1, 0);
+  const sourceMap = JSON.stringify({
+    sources: ['app.html'],
+    mappings: encodeMappings([
+      // Call start, and its terminator mapped to the end of the node
+      [[0, 0, 0], [emittedLines[0].length - 1, 0, 9]],
+      [[0, 0, 3], [emittedLines[1].length - 1, 0, 5]],
+      [[0, 0, 3]],
+      [[0, 1, 3], [emittedLines[3].length - 1, 1, 13]],
+    ]),
+  });
+  const finalCode = [
+    "  i0.ɵɵelementStart(0, 'p');",
+    "  i0.ɵɵtext(1, 'Hi');",
+    '  i0.ɵɵtextInterpolate(ctx.name);',
+  ].join('\n');
+  const build = (code = finalCode) => buildSourceMappings({
+    emittedCode,
+    sourceMap,
+    removedRanges: [[lineStart(2), lineStart(3)]],
+    finalCode: code,
+    resolveSource: source => source === 'app.html' ? { file: 'app.html', content: template } : undefined,
+  });
+
+  it('carries template spans over to the calls in the final output', () => {
+    const mappings = build();
+
+    expect(mappings.map(m => m.instruction)).toEqual(['ɵɵelementStart', 'ɵɵtext', 'ɵɵtextInterpolate']);
+    expect(mappings.map(m => template.slice(m.source.start, m.source.end))).toEqual(['<p>Hi</p>', 'Hi', '{{ name }}']);
+    expect(mappings.map(m => finalCode.slice(m.generated.start, m.generated.end))).toEqual([
+      "i0.ɵɵelementStart(0, 'p')",
+      "i0.ɵɵtext(1, 'Hi')",
+      'i0.ɵɵtextInterpolate(ctx.name)',
+    ]);
+    expect(mappings.every(m => m.source.file === 'app.html')).toBe(true);
+  });
+
+  it('gives up when formatting changed the number of calls', () => {
+    expect(build(finalCode.split('\n').slice(1).join('\n'))).toEqual([]);
+  });
+
+  it('skips calls whose source the project does not have', () => {
+    expect(buildSourceMappings({
+      emittedCode,
+      sourceMap: JSON.stringify({ sources: ['elsewhere.html'], mappings: JSON.parse(sourceMap).mappings }),
+      removedRanges: [[lineStart(2), lineStart(3)]],
+      finalCode,
+      resolveSource: () => undefined,
+    })).toEqual([]);
+  });
+});
+
+describe('source mappings in compile responses', () => {
+  it('point each instruction at its node in the external template', async () => {
+    const template = '<h1>{{ title }}</h1>\n<button (click)="save()">Save</button>';
+    const [{ body }] = await callCompileHandler([{
+      body: {
+        files: {
+          'main.ts': [
+            "import { Component } from '@angular/core';",
+            '',
+            "@Component({ selector: 'app-root', templateUrl: './app.html' })",
+            "export class App { title = 'Hello'; save() {} }",
+          ].join('\n'),
+          'app.html': template,
+        },
+      },
+    }]);
+
+    const output: string = body.outputFiles['main.ts'];
+    const mappings = body.sourceMappings['main.ts'].map((m: any) => ({
+      instruction: m.instruction,
+      generated: output.slice(m.generated.start, m.generated.end),
+      source: m.source.file === 'app.html' ? template.slice(m.source.start, m.source.end) : null,
+    }));
+
+    expect(mappings).toEqual(expect.arrayContaining([
+      { instruction: 'ɵɵdomElementStart', generated: "i0.ɵɵdomElementStart(2, 'button', 0)", source: '<button (click)="save()">' },
+      expect.objectContaining({ instruction: 'ɵɵdomListener', source: '(click)="save()"' }),
+      { instruction: 'ɵɵtext', generated: "i0.ɵɵtext(3, 'Save')", source: 'Save' },
+      { instruction: 'ɵɵtextInterpolate', generated: 'i0.ɵɵtextInterpolate(ctx.title)', source: '{{ title }}' },
+    ]));
+  }, 60_000);
+});
@@ -0,0 +1,51 @@
+import { callCompileHandler } from './handler';
+
+const componentWith = (binding: string) => ({
+  'main.ts': [
+    "import { Component } from '@angular/core';",
+    '',
+    "@Component({ selector: 'app-root', templateUrl: './app.html' })",
+    "export class App { title = 'Hello'; }",
+    '',
+    'export class NotAComponent {}',
+  ].join('\n'),
+  'app.html': `<h1>{{ ${binding} }}</h1>`,
+});
+
+describe('type-check blocks', () => {
+  it('are only returned on request', async () => {
+    const [{ body }] = await callCompileHandler([{ body: { files: componentWith('title') } }]);
+
+    expect(body.typeCheckBlocks).toBeUndefined();
+  }, 60_000);
+
+  it('map errors in the block back to the template', async () => {
+    const [{ status, body }] = await callCompileHandler([
+      { body: { files: componentWith('title.foo'), output: { typeCheckBlocks: true } } },
+    ]);
+
+    expect(status).toBe(200);
+    expect(body.hasDiagnostics).toBe(true);
+    expect(body.typeCheckBlocks).toHaveLength(1);
+
+    const [block] = body.typeCheckBlocks;
+    expect(block).toMatchObject({ file: 'main.ts', component: 'App', shimFile: 'main.ngtypecheck.ts' });
+    expect(block.source).toContain('.foo');
+
+    const [diagnostic] = block.diagnostics;
+    expect(diagnostic).toMatchObject({ code: 2339, message: "Property 'foo' does not exist on type 'string'." });
+    expect(block.source.slice(diagnostic.start, diagnostic.end)).toBe('foo');
+    expect(diagnostic.templateDiagnostic).toMatchObject({ file: 'app.html', start: { line: 1, column: 14 } });
+  }, 60_000);
+
+  it('follow the template when a session recompiles incrementally', async () => {
+    const [, second] = await callCompileHandler([
+      { body: { files: componentWith('title.foo'), output: { typeCheckBlocks: true }, sessionId: 'tcb' } },
+      { body: { files: componentWith('title.length'), output: { typeCheckBlocks: true }, sessionId: 'tcb' } },
+    ]);
+
+    expect(second.body.hasDiagnostics).toBe(false);
+    expect(second.body.typeCheckBlocks[0].source).toContain('.length');
+    expect(second.body.typeCheckBlocks[0].diagnostics).toEqual([]);
+  }, 120_000);
+});
@@ -0,0 +1,78 @@
+// Bundles the in-browser compiler (src/compiler-worker) into public/compiler-worker, next to the
+// typings it compiles against. Runs before `npm start`/`npm run build`; the output isn't committed.
+import * as esbuild from 'esbuild';
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative, resolve, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const outDir = join(root, 'public/compiler-worker');
+
+// Packages playground code can import, matching the dependencies of the compileAngular function
+const TYPED_PACKAGES = [
+  '@angular/core',
+  '@angular/common',
+  '@angular/forms',
+  '@angular/router',
+  '@angular/platform-browser',
+  'rxjs',
+  'tslib',
+];
+
+// Parts of those packages playground code never imports typings from
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'locales', 'testing', 'upgrade', 'schematics', 'src']);
+
+// The worker compiles against the DOM libs, so the webworker libs are left out
+const SKIPPED_LIBS = new Set(['lib.webworker.d.ts', 'lib.webworker.iterable.d.ts', 'lib.webworker.asynciterable.d.ts']);
+
+// Node builtins @angular/compiler-cli imports at load time, replaced by stand-ins
+const NODE_BUILTINS = ['fs', 'module', 'os', 'url'];
+
+function collectTypings() {
+  const typings = {};
+  const add = file => {
+    typings[`/${relative(root, file).split(sep).join('/')}`] = readFileSync(file, 'utf8');
+  };
+  const walk = dir => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name)) {
+        walk(path);
+      } else if (entry.isFile() && (entry.name.endsWith('.d.ts') || entry.name === 'package.json')) {
+        add(path);
+      }
+    }
+  };
+
+  const libDir = join(root, 'node_modules/typescript/lib');
+  for (const name of readdirSync(libDir)) {
+    if (/^lib\..+\.d\.ts$/.test(name) && !SKIPPED_LIBS.has(name)) {
+      add(join(libDir, name));
+    }
+  }
+  TYPED_PACKAGES.forEach(name => walk(join(root, 'node_modules', name)));
+  return typings;
+}
+
+mkdirSync(outDir, { recursive: true });
+writeFileSync(join(outDir, 'typings.json'), JSON.stringify(collectTypings()));
+
+await esbuild.build({
+  absWorkingDir: root,
+  entryPoints: ['src/compiler-worker/compiler.worker.ts'],
+  outfile: join(outDir, 'compiler.worker.js'),
+  tsconfig: 'tsconfig.worker.json',
+  bundle: true,
+  format: 'esm',
+  platform: 'browser',
+  target: 'es2022',
+  minify: true,
+  logLevel: 'warning',
+  inject: ['src/compiler-worker/process-shim.ts'],
+  alias: {
+    path: 'path-browserify',
+    // Modules shared with functions/ must not pull in the functions' own copy of TypeScript
+    typescript: './node_modules/typescript',
+    ...Object.fromEntries(NODE_BUILTINS.map(name => [name, './src/compiler-worker/node-builtins.ts'])),
+  },
+});
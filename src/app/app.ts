@@ -1,84 +1,261 @@
-import { Component, inject, signal } from '@angular/core';
-import { firstValueFrom } from 'rxjs';
+import { Component, computed, inject, signal, viewChild } from '@angular/core';
+import { lastValueFrom } from 'rxjs';
+import { filter, tap } from 'rxjs/operators';
 
 import { NgTemplateOutlet } from '@angular/common';
 import { CodeMirrorDirective } from './codemirror.directive';
-import { IvyClient } from './ivy-cllient';
+import { CompileErrorPanel } from './compile-error-panel';
+import { CompileProgress } from './compile-progress';
+import {
+  ANGULAR_VERSIONS,
+  CompileDiagnostic,
+  CompiledResponse,
+  CompilePhaseEvent,
+  CompilerLocation,
+  CompilerMode,
+  CompilerOptionsRequest,
+  CompileStreamEvent,
+  ComponentMetadata,
+  DEFAULT_ANGULAR_VERSION,
+  IvyClient,
+  OutputAnnotation,
+  OutputOptionsRequest,
+  SourceMapping,
+  TypeCheckBlock,
+} from './ivy-cllient';
+import { CompilerOptionsPanel } from './compiler-options-panel';
+import { ComponentMetadataPanel } from './component-metadata-panel';
+import { OutputDiff } from './output-diff';
+import { OutputView, OutputViewToggles } from './output-view-toggles';
+import { TypeCheckBlockViewer } from './type-check-block-viewer';
+import { decodePermalink, encodePermalink } from './permalink';
+import { Example, EXAMPLES } from './examples';
+import { ENTRY_FILE_NAME, ProjectFile, toFileMap } from './project-file';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [CodeMirrorDirective, NgTemplateOutlet],
+  imports: [
+    CodeMirrorDirective,
+    CompileErrorPanel,
+    CompileProgress,
+    CompilerOptionsPanel,
+    ComponentMetadataPanel,
+    NgTemplateOutlet,
+    OutputDiff,
+    OutputViewToggles,
+    TypeCheckBlockViewer,
+  ],
   templateUrl: './app.html',
   styleUrls: ['./app.scss'],
+  host: {
+    '(window:hashchange)': 'restoreFromUrl()',
+  },
 })
 export class App {
   #ivyClient = inject(IvyClient);
 
-  protected readonly templates = {
-    basic: `import { Component, signal } from '@angular/core';
+  protected readonly examples = EXAMPLES;
+  // Null once the project no longer comes from the gallery (e.g. opened from a permalink)
+  protected readonly selectedExample = signal<Example | null>(EXAMPLES[0]);
 
-@Component({
-  selector: 'app-root',
-  template: '<h1>{{ title() }}</h1>',
-})
-export class App {
-  title = signal('Hello Angular');
-}`,
-  };
-
-  protected readonly inputCode = signal(this.templates.basic);
-  protected readonly compilationError = signal<string | null>(null);
+  protected readonly files = signal<ProjectFile[]>(EXAMPLES[0].files);
+  protected readonly activeFileName = signal(ENTRY_FILE_NAME);
+  protected readonly activeFile = computed(
+    () => this.files().find(file => file.name === this.activeFileName()) ?? this.files()[0]
+  );
+  protected readonly entryFileName = ENTRY_FILE_NAME;
+  protected readonly compilerOptions = signal<CompilerOptionsRequest>({});
+  protected readonly angularVersions = ANGULAR_VERSIONS;
+  // Major version to compile against
+  protected readonly angularVersion = signal(DEFAULT_ANGULAR_VERSION);
+  // Exact version the current output was compiled with, shown in the header
+  protected readonly compiledAngularVersion = signal<string | null>(null);
+  protected readonly outputOptions = signal<OutputOptionsRequest>({});
+  protected readonly showOptions = signal(false);
+  protected readonly compilerMode = signal<CompilerMode>('auto');
+  protected readonly compilationError = signal<Error | null>(null);
   protected readonly compiledCode = signal<string>('');
+  protected readonly outputFiles = signal<Record<string, string>>({});
+  protected readonly sourceMappings = signal<Record<string, SourceMapping[]>>({});
+  protected readonly outputSizes = signal<Record<string, number> | null>(null);
+  // Null unless requested with the output options
+  protected readonly typeCheckBlocks = signal<TypeCheckBlock[] | null>(null);
+  protected readonly outputView = signal<OutputView>('code');
+  // Explanations per output file; null unless requested with the output options
+  protected readonly annotations = signal<Record<string, OutputAnnotation[]> | null>(null);
+  // Null unless requested with the output options
+  protected readonly componentMetadata = signal<ComponentMetadata[] | null>(null);
+  // Sources as they were sent for the current output; mappings are stale once the editor differs
+  protected readonly compiledSources = signal<Record<string, string>>({});
+  // Output file shown for the active tab: its own output, or for templates/styles the component using it
+  protected readonly displayedOutputFile = computed(() => {
+    const active = this.activeFileName();
+    if (active in this.outputFiles()) return active;
+    const mappings = Object.entries(this.sourceMappings());
+    return mappings.find(([, fileMappings]) => fileMappings.some(m => m.source.file === active))?.[0] ?? null;
+  });
+  // Show the output of the active tab when available, otherwise the combined output or diagnostics
+  protected readonly displayedOutput = computed(() => {
+    const outputFile = this.displayedOutputFile();
+    return this.hasDiagnostics() || outputFile === null ? this.compiledCode() : this.outputFiles()[outputFile];
+  });
+  // Annotation offsets are relative to a single file's output, so there are none for the combined output
+  protected readonly displayedAnnotations = computed(() => {
+    const outputFile = this.displayedOutputFile();
+    return outputFile === null || this.hasDiagnostics() ? [] : this.annotations()?.[outputFile] ?? [];
+  });
+  // Bytes of the displayed file, or of the whole project when the combined output is shown
+  protected readonly displayedOutputSize = computed(() => {
+    const sizes = this.outputSizes();
+    if (!sizes || this.hasDiagnostics()) return null;
+    const outputFile = this.displayedOutputFile();
+    return outputFile !== null ? sizes[outputFile] ?? null : Object.values(sizes).reduce((total, size) => total + size, 0);
+  });
+  protected readonly inputHighlights = signal<Array<{ from: number; to: number }>>([]);
+  protected readonly outputHighlights = signal<Array<{ from: number; to: number }>>([]);
   protected readonly hasDiagnostics = signal(false);
+  protected readonly diagnostics = signal<CompileDiagnostic[]>([]);
+  // Diagnostics without a file (e.g. compiler options) are shown on the entry file
+  protected readonly activeFileDiagnostics = computed(() =>
+    this.diagnostics().filter(d => (d.file ?? ENTRY_FILE_NAME) === this.activeFileName())
+  );
   protected readonly isCompiling = signal(false);
+  // Server phases finished so far for the compilation in progress
+  protected readonly compilePhases = signal<CompilePhaseEvent[]>([]);
   protected readonly isSkeletonFadingOut = signal(false);
   protected readonly isStreaming = signal(false);
   protected readonly streamingProgress = signal(0); // Percentage of lines revealed
   protected readonly totalLines = signal(0);
+  // Output of the compilation before the current one, compared against in diff mode
+  protected readonly previousCompiledCode = signal<string | null>(null);
+  protected readonly previousOutputFiles = signal<Record<string, string>>({});
+  protected readonly previousDisplayedOutput = computed(() => {
+    const previous = this.previousCompiledCode();
+    return previous === null ? null : this.previousOutputFiles()[this.activeFileName()] ?? previous;
+  });
+  protected readonly diffMode = signal(false);
   protected readonly compilationTime = signal<number | null>(null);
   protected readonly fromCache = signal<boolean>(false);
+  protected readonly cacheLayer = signal<CompiledResponse['cacheLayer']>(undefined);
+  protected readonly compiledBy = signal<CompilerLocation | null>(null);
+  protected readonly linkCopied = signal(false);
+
+  private readonly codeMirror = viewChild.required<CodeMirrorDirective>('codeMirror');
 
   // Debounce compilation to avoid excessive API calls
   #compileTimeout: number | null = null;
   
   constructor() {
-    this.compileCode(this.inputCode());
+    // Opening a permalink shows its project right away; any other URL starts from the default template
+    this.restoreFromUrl().then(restored => {
+      if (!restored) this.compileCode(this.files());
+    });
   }
 
-  compileCodeDebounced(code: string, delay = 300) {
+  protected async restoreFromUrl(): Promise<boolean> {
+    const state = await decodePermalink(location.hash);
+    if (!state) return false;
+
+    this.files.set(state.files);
+    this.selectedExample.set(null);
+    this.compilerOptions.set(state.options);
+    this.outputOptions.set(state.output ?? {});
+    this.angularVersion.set(
+      state.angularVersion && ANGULAR_VERSIONS.includes(state.angularVersion) ? state.angularVersion : DEFAULT_ANGULAR_VERSION
+    );
+    this.activeFileName.set(ENTRY_FILE_NAME);
+    this.clearHighlights();
+    this.compileCode(this.files());
+    return true;
+  }
+
+  protected async copyLink() {
+    this.syncActiveFile();
+    const hash = await encodePermalink({
+      files: this.files(),
+      options: this.compilerOptions(),
+      output: this.outputOptions(),
+      angularVersion: this.angularVersion(),
+    });
+    // replaceState doesn't fire hashchange, so the current output is kept
+    history.replaceState(null, '', hash);
+    await navigator.clipboard.writeText(location.href);
+    this.linkCopied.set(true);
+    setTimeout(() => this.linkCopied.set(false), 2000);
+  }
+
+  compileCodeDebounced(files: ProjectFile[], delay = 300) {
     if (this.#compileTimeout) {
       clearTimeout(this.#compileTimeout);
     }
     
     this.#compileTimeout = setTimeout(() => {
-      this.compileCode(code);
+      this.compileCode(files);
     }, delay);
   }
 
-  async compileCode(code: string) {
+  protected compileActiveProject() {
+    this.syncActiveFile();
+    this.compileCode(this.files());
+  }
+
+  async compileCode(files: ProjectFile[]) {
     try {
       this.isCompiling.set(true);
       this.isSkeletonFadingOut.set(false);
       this.isStreaming.set(false);
       this.streamingProgress.set(0);
       this.compilationError.set(null);
+      this.compilePhases.set([]);
       
-      const result = await firstValueFrom(this.#ivyClient.getCompiledOutput(code));
+      const { result, compiledBy } = await lastValueFrom(
+        this.#ivyClient.compile(
+          toFileMap(files),
+          this.compilerOptions(),
+          this.compilerMode(),
+          this.angularVersion(),
+          this.outputOptions()
+        ).pipe(
+          tap(event => {
+            if (event.type === 'phase') {
+              this.compilePhases.update(phases => [...phases, event.phase]);
+            }
+          }),
+          filter((event): event is Extract<CompileStreamEvent, { type: 'result' }> => event.type === 'result')
+        )
+      );
+      this.compiledSources.set(toFileMap(files));
       
       this.isSkeletonFadingOut.set(true);
       
       // Always use the same animation timing for consistent UX
       // Whether from cache or fresh compilation
       setTimeout(() => {
+        // Keep the last successful output around so diff mode compares against it
+        if (this.compiledCode() && !this.hasDiagnostics() && this.compiledCode() !== result.compiledOutput) {
+          this.previousCompiledCode.set(this.compiledCode());
+          this.previousOutputFiles.set(this.outputFiles());
+        }
         this.compiledCode.set(result.compiledOutput);
+        this.outputFiles.set(result.outputFiles ?? {});
+        this.sourceMappings.set(result.sourceMappings ?? {});
+        this.outputSizes.set(result.outputSizes ?? null);
+        this.typeCheckBlocks.set(result.typeCheckBlocks ?? null);
+        this.annotations.set(result.annotations ?? null);
+        this.componentMetadata.set(result.componentMetadata ?? null);
+        this.clearHighlights();
         this.hasDiagnostics.set(result.hasDiagnostics);
+        this.diagnostics.set(result.diagnostics ?? []);
         this.compilationTime.set(result.compilationTime);
         this.fromCache.set(result.fromCache || false);
+        this.cacheLayer.set(result.cacheLayer);
+        this.compiledAngularVersion.set(result.angularVersion ?? null);
+        this.compiledBy.set(compiledBy);
         this.isCompiling.set(false);
         
         // Count lines and start streaming effect
-        const lines = result.compiledOutput.split('\n');
+        const lines = this.displayedOutput().split('\n');
         this.totalLines.set(lines.length);
         
         // Use faster animation for cached results but still smooth
@@ -86,12 +263,15 @@ export class App {
         this.startTypewriterEffect(lines.length, isCached);
       }, 300); // Match CSS transition duration
       
-    } catch (error: any) {
+    } catch (error: unknown) {
       this.isSkeletonFadingOut.set(true);
       setTimeout(() => {
-        this.compilationError.set(error.message || 'Compilation failed');
+        this.compilationError.set(error instanceof Error ? error : new Error('Compilation failed'));
+        this.diagnostics.set([]);
         this.compilationTime.set(null);
         this.fromCache.set(false);
+        this.cacheLayer.set(undefined);
+        this.compiledBy.set(null);
         this.isCompiling.set(false);
       }, 300);
     }
@@ -126,8 +306,129 @@ export class App {
     setTimeout(revealNextLine, isCached ? 50 : 100);
   }
 
+  // Escape hatch for FORMATTING_FAILED: the compilation worked, only prettier didn't
+  protected showRawOutput(rawOutput: string) {
+    this.compilationError.set(null);
+    this.compiledCode.set(rawOutput);
+    this.outputFiles.set({});
+    this.sourceMappings.set({});
+    this.outputSizes.set(null);
+    this.typeCheckBlocks.set(null);
+    this.annotations.set(null);
+    this.componentMetadata.set(null);
+    this.hasDiagnostics.set(false);
+    this.diagnostics.set([]);
+    this.clearHighlights();
+  }
+
   protected selectTemplate(event: Event) {
-    const template = (event.target as HTMLSelectElement).value;
-    this.inputCode.set(this.templates[template as keyof typeof this.templates]);
+    const id = (event.target as HTMLSelectElement).value;
+    const example = EXAMPLES.find(example => example.id === id);
+    if (!example) return;
+
+    this.selectedExample.set(example);
+    this.files.set(example.files);
+    this.activeFileName.set(ENTRY_FILE_NAME);
+    this.clearHighlights();
+    this.compileCodeDebounced(this.files());
+  }
+
+  protected updateCompilerOptions(options: CompilerOptionsRequest) {
+    this.compilerOptions.set(options);
+    this.syncActiveFile();
+    this.compileCodeDebounced(this.files());
+  }
+
+  protected updateOutputOptions(options: OutputOptionsRequest) {
+    // Turning type-check blocks on is a request to see them
+    if (options.typeCheckBlocks !== this.outputOptions().typeCheckBlocks) {
+      this.outputView.set(options.typeCheckBlocks ? 'typeCheckBlocks' : 'code');
+    }
+    this.outputOptions.set(options);
+    this.syncActiveFile();
+    this.compileCodeDebounced(this.files());
+  }
+
+  protected selectAngularVersion(event: Event) {
+    this.angularVersion.set((event.target as HTMLSelectElement).value);
+    this.syncActiveFile();
+    this.compileCodeDebounced(this.files());
+  }
+
+  protected updateCompilerMode(event: Event) {
+    this.compilerMode.set((event.target as HTMLSelectElement).value as CompilerMode);
+    this.syncActiveFile();
+    this.compileCodeDebounced(this.files());
+  }
+
+  protected selectFile(name: string) {
+    this.syncActiveFile();
+    this.activeFileName.set(name);
+    this.clearHighlights();
+  }
+
+  // Highlight the instructions generated from the template node or binding under the cursor
+  protected onInputCursor(offset: number) {
+    const mappings = this.#currentMappings();
+    const active = this.activeFileName();
+    this.inputHighlights.set([]);
+    this.outputHighlights.set(
+      mappings
+        .filter(m => m.source.file === active && m.source.start <= offset && offset < m.source.end)
+        .map(m => ({ from: m.generated.start, to: m.generated.end }))
+    );
+  }
+
+  // Highlight the template node or binding the instruction under the cursor was generated from
+  protected onOutputCursor(offset: number) {
+    const active = this.activeFileName();
+    const innermost = this.#currentMappings()
+      .filter(m => m.generated.start <= offset && offset < m.generated.end && m.source.file === active)
+      .sort((a, b) => a.generated.end - a.generated.start - (b.generated.end - b.generated.start))[0];
+
+    this.outputHighlights.set([]);
+    this.inputHighlights.set(innermost ? [{ from: innermost.source.start, to: innermost.source.end }] : []);
+  }
+
+  #currentMappings(): SourceMapping[] {
+    const outputFile = this.displayedOutputFile();
+    const active = this.activeFileName();
+    const isStale = this.codeMirror().doc !== this.compiledSources()[active];
+    return outputFile === null || this.hasDiagnostics() || isStale ? [] : this.sourceMappings()[outputFile] ?? [];
+  }
+
+  private clearHighlights() {
+    this.inputHighlights.set([]);
+    this.outputHighlights.set([]);
+  }
+
+  protected addFile() {
+    const name = prompt('File name (e.g. models.ts, app.html or app.scss)')?.trim();
+    if (!name) return;
+
+    if (this.files().some(file => file.name === name)) {
+      this.selectFile(name);
+      return;
+    }
+
+    this.syncActiveFile();
+    this.files.update(files => [...files, { name, content: '' }]);
+    this.activeFileName.set(name);
+  }
+
+  protected removeFile(name: string, event: Event) {
+    event.stopPropagation();
+    this.syncActiveFile();
+    this.files.update(files => files.filter(file => file.name !== name));
+    if (this.activeFileName() === name) {
+      this.activeFileName.set(ENTRY_FILE_NAME);
+    }
+  }
+
+  // The editor owns the text while typing, so copy it back before switching tabs or compiling
+  private syncActiveFile() {
+    const content = this.codeMirror().doc;
+    const name = this.activeFile().name;
+    this.files.update(files => files.map(file => (file.name === name ? { ...file, content } : file)));
   }
 }
@@ -1,10 +1,15 @@
-import { Directive, ElementRef, OnInit, effect, inject, input } from '@angular/core';
-import { EditorView, highlightActiveLine, lineNumbers, keymap } from '@codemirror/view';
+import { Directive, ElementRef, OnInit, effect, inject, input, output } from '@angular/core';
+import { Decoration, EditorView, highlightActiveLine, hoverTooltip, lineNumbers, keymap } from '@codemirror/view';
 import { githubDark } from '@uiw/codemirror-theme-github';
 import { javascript } from '@codemirror/lang-javascript';
+import { html } from '@codemirror/lang-html';
+import { css } from '@codemirror/lang-css';
+import { sass } from '@codemirror/lang-sass';
 import { minimalSetup } from 'codemirror';
-import { Compartment, EditorState } from '@codemirror/state';
+import { Compartment, EditorState, RangeSetBuilder, Text } from '@codemirror/state';
 import { indentWithTab, defaultKeymap, history, historyKeymap } from '@codemirror/commands';
+import { Diagnostic, lintGutter, setDiagnostics } from '@codemirror/lint';
+import { CompileDiagnostic, DiagnosticMessageChain, DiagnosticPosition, OutputAnnotation } from './ivy-cllient';
 
 @Directive({
   selector: '[appCodeMirror]',
@@ -18,9 +23,24 @@ export class CodeMirrorDirective implements OnInit {
   content = input.required<string>();
   hasDiagnostics = input<boolean>(false);
   isCodeEditor = input<boolean>(false);
+  // Picks syntax highlighting by extension; JavaScript/TypeScript when not set
+  fileName = input<string | null>(null);
+  // Compiler diagnostics for this document, shown as underlines, gutter markers and tooltips
+  diagnostics = input<CompileDiagnostic[]>([]);
+  // Extra CSS classes per 1-based line number, e.g. to mark lines added or removed in a diff
+  lineClasses = input<Record<number, string>>({});
+  // Character ranges to highlight, e.g. instructions generated from the node under the cursor
+  highlightRanges = input<Array<{ from: number; to: number }>>([]);
+  // Explanations of parts of the document, underlined and shown when hovered
+  annotations = input<OutputAnnotation[]>([]);
+  // Cursor offset whenever the user moves the selection
+  cursorChange = output<number>();
 
   #language = new Compartment();
   #activeLineHighlight = new Compartment();
+  #lineDecorations = new Compartment();
+  #highlights = new Compartment();
+  #annotations = new Compartment();
 
   constructor() {
     effect(() => {
@@ -31,7 +51,7 @@ export class CodeMirrorDirective implements OnInit {
       });
 
       this.#editor.dispatch({
-        effects: this.#language.reconfigure(this.hasDiagnostics() ? [] : javascript()),
+        effects: this.#language.reconfigure(this.hasDiagnostics() ? [] : this.#languageFor(this.fileName())),
       });
 
       const editorElement = this.#editor.dom;
@@ -41,6 +61,58 @@ export class CodeMirrorDirective implements OnInit {
         editorElement.classList.remove('has-diagnostics');
       }
     });
+
+    // Separate effect so new diagnostics don't reset the document (and the cursor) while typing
+    effect(() => {
+      const diagnostics = this.diagnostics();
+      this.content();
+      if (!this.#editor || !this.isCodeEditor()) return;
+
+      const doc = this.#editor.state.doc;
+      this.#editor.dispatch(setDiagnostics(this.#editor.state, diagnostics.map(d => toLintDiagnostic(d, doc))));
+    });
+
+    effect(() => {
+      const lineClasses = this.lineClasses();
+      this.content();
+      if (!this.#editor) return;
+
+      this.#editor.dispatch({
+        effects: this.#lineDecorations.reconfigure(
+          EditorView.decorations.of(buildLineDecorations(lineClasses, this.#editor.state.doc))
+        ),
+      });
+    });
+
+    effect(() => {
+      const ranges = this.highlightRanges();
+      this.content();
+      if (!this.#editor) return;
+
+      const doc = this.#editor.state.doc;
+      const marks = ranges
+        .filter(range => range.from < range.to && range.to <= doc.length)
+        .sort((a, b) => a.from - b.from)
+        .map(range => highlightMark.range(range.from, range.to));
+
+      this.#editor.dispatch({
+        effects: [
+          this.#highlights.reconfigure(EditorView.decorations.of(Decoration.set(marks))),
+          // Bring the highlight into view in the other pane, but never scroll the pane being edited
+          ...(marks.length && !this.#editor.hasFocus ? [EditorView.scrollIntoView(marks[0].from, { y: 'center' })] : []),
+        ],
+      });
+    });
+
+    effect(() => {
+      const annotations = this.annotations();
+      this.content();
+      if (!this.#editor) return;
+
+      this.#editor.dispatch({
+        effects: this.#annotations.reconfigure(annotations.length ? buildAnnotations(annotations, this.#editor.state.doc) : []),
+      });
+    });
   }
 
   ngOnInit(): void {
@@ -50,7 +122,15 @@ export class CodeMirrorDirective implements OnInit {
       keymap.of([indentWithTab, ...historyKeymap, ...defaultKeymap]),
       githubDark,
       EditorView.lineWrapping,
-      this.#language.of(javascript()),
+      this.#language.of(this.#languageFor(this.fileName())),
+      this.#lineDecorations.of([]),
+      this.#highlights.of([]),
+      this.#annotations.of([]),
+      EditorView.updateListener.of(update => {
+        if (update.selectionSet && update.view.hasFocus) {
+          this.cursorChange.emit(update.state.selection.main.head);
+        }
+      }),
       EditorView.theme({
         '&': {
           fontSize: '12.5px',
@@ -105,6 +185,43 @@ export class CodeMirrorDirective implements OnInit {
         '&.has-diagnostics .cm-content': {
           color: '#a5d6ff'
         },
+        '.cm-source-highlight': {
+          backgroundColor: 'rgba(56, 139, 253, 0.25)',
+          borderRadius: '2px',
+        },
+        '.cm-diff-added': {
+          backgroundColor: 'rgba(46, 160, 67, 0.15)',
+        },
+        '.cm-diff-removed': {
+          backgroundColor: 'rgba(248, 81, 73, 0.15)',
+        },
+        '.cm-tooltip.cm-tooltip-lint': {
+          backgroundColor: '#161b22',
+          border: '1px solid #30363d',
+          whiteSpace: 'pre-wrap',
+          maxWidth: '600px',
+        },
+        '.cm-gutter-lint .cm-gutterElement': {
+          pointerEvents: 'auto',
+        },
+        '.cm-annotated': {
+          textDecoration: 'underline dotted rgba(139, 148, 158, 0.6)',
+          textUnderlineOffset: '3px',
+          cursor: 'help',
+        },
+        '.cm-tooltip.cm-annotation-tooltip': {
+          backgroundColor: '#161b22',
+          border: '1px solid #30363d',
+          color: '#c9d1d9',
+          padding: '6px 8px',
+          whiteSpace: 'pre-wrap',
+          maxWidth: '480px',
+        },
+        '.cm-annotation-tooltip strong': {
+          display: 'block',
+          marginBottom: '4px',
+          color: '#79c0ff',
+        },
       }),
       EditorView.theme({
 
@@ -113,6 +230,7 @@ export class CodeMirrorDirective implements OnInit {
 
     if (this.isCodeEditor()) {
       extensions.push(lineNumbers());
+      extensions.push(lintGutter());
       extensions.push(this.#activeLineHighlight.of([]));
 
       extensions.push(EditorView.domEventHandlers({
@@ -133,7 +251,86 @@ export class CodeMirrorDirective implements OnInit {
     });
   }
 
+  #languageFor(fileName: string | null) {
+    if (fileName?.endsWith('.html')) return html();
+    if (fileName?.endsWith('.scss')) return sass();
+    if (fileName?.endsWith('.css')) return css();
+    return javascript({ typescript: !!fileName?.endsWith('.ts') });
+  }
+
   get doc() {
     return this.#editor.state.doc.toString();
   }
 }
+
+const highlightMark = Decoration.mark({ class: 'cm-source-highlight' });
+const annotatedMark = Decoration.mark({ class: 'cm-annotated' });
+
+// Underline the annotated ranges and explain the one under the pointer
+function buildAnnotations(annotations: OutputAnnotation[], doc: Text) {
+  const valid = annotations.filter(a => a.start < a.end && a.end <= doc.length).sort((a, b) => a.start - b.start);
+  const marks = valid.map(a => annotatedMark.range(a.start, a.end));
+
+  return [
+    EditorView.decorations.of(Decoration.set(marks)),
+    hoverTooltip((_, pos, side) => {
+      const annotation = valid.find(a => a.start <= pos && pos <= a.end && !(pos === a.start && side < 0) && !(pos === a.end && side > 0));
+      if (!annotation) return null;
+      return {
+        pos: annotation.start,
+        end: annotation.end,
+        above: true,
+        create: () => {
+          const dom = document.createElement('div');
+          dom.className = 'cm-annotation-tooltip';
+          const label = document.createElement('strong');
+          label.textContent = annotation.label;
+          dom.append(label, annotation.explanation);
+          return { dom };
+        },
+      };
+    }),
+  ];
+}
+
+function buildLineDecorations(lineClasses: Record<number, string>, doc: Text) {
+  const builder = new RangeSetBuilder<Decoration>();
+  const lines = Object.keys(lineClasses).map(Number).filter(line => line >= 1 && line <= doc.lines).sort((a, b) => a - b);
+
+  for (const line of lines) {
+    const from = doc.line(line).from;
+    builder.add(from, from, Decoration.line({ class: lineClasses[line] }));
+  }
+
+  return builder.finish();
+}
+
+function toLintDiagnostic(diagnostic: CompileDiagnostic, doc: Text): Diagnostic {
+  const from = toOffset(diagnostic.start, doc);
+  const to = Math.max(toOffset(diagnostic.end, doc), from);
+
+  return {
+    // Zero-length ranges (e.g. a missing token) would be invisible, so underline one character
+    from,
+    to: to === from ? Math.min(from + 1, doc.length) : to,
+    severity: diagnostic.category === 'error' ? 'error' : diagnostic.category === 'warning' ? 'warning' : 'info',
+    source: diagnostic.source === 'template' ? `Angular template ${formatDiagnosticCode(diagnostic.code)}` : formatDiagnosticCode(diagnostic.code),
+    message: flattenMessageChain(diagnostic.messageChain),
+  };
+}
+
+// Angular reports its own errors as "-99xxxx" codes; show them the way the CLI does (NGxxxx)
+function formatDiagnosticCode(code: number): string {
+  return code < 0 ? `NG${String(-code).slice(2)}` : `TS${code}`;
+}
+
+// Convert a 1-based line/column into a document offset, clamped to the current document
+function toOffset(position: DiagnosticPosition | null, doc: Text): number {
+  if (!position) return 0;
+  const line = doc.line(Math.min(Math.max(position.line, 1), doc.lines));
+  return Math.min(line.from + position.column - 1, line.to);
+}
+
+function flattenMessageChain(chain: DiagnosticMessageChain, indent = 0): string {
+  return [`${'  '.repeat(indent)}${chain.message}`, ...(chain.next ?? []).map(next => flattenMessageChain(next, indent + 1))].join('\n');
+}
@@ -0,0 +1,36 @@
+import { Component, computed, input, output } from '@angular/core';
+import { CompileErrorCode, CompileRequestError } from './compile-error';
+
+// Heading shown for each kind of failure
+const TITLES: Record<CompileErrorCode, string> = {
+  INVALID_INPUT: 'Invalid project',
+  ACCESS_DENIED: 'Access denied',
+  RATE_LIMITED: 'Too many compilations',
+  MODULE_RESOLUTION_FAILED: 'Module not found',
+  COMPILER_CRASH: 'Compiler crashed',
+  FORMATTING_FAILED: 'Formatting failed',
+  TIMEOUT: 'Compilation timed out',
+};
+
+@Component({
+  selector: 'app-compile-error-panel',
+  standalone: true,
+  templateUrl: './compile-error-panel.html',
+  styleUrls: ['./compile-error-panel.scss'],
+})
+export class CompileErrorPanel {
+  error = input.required<Error>();
+  // Emits the unformatted output when the user asks to see it
+  showRawOutput = output<string>();
+
+  readonly #requestError = computed(() => {
+    const error = this.error();
+    return error instanceof CompileRequestError ? error : null;
+  });
+  protected readonly title = computed(() => {
+    const code = this.#requestError()?.code;
+    return code ? TITLES[code] : 'Compilation failed';
+  });
+  protected readonly code = computed(() => this.#requestError()?.code ?? null);
+  protected readonly rawOutput = computed(() => this.#requestError()?.rawOutput ?? null);
+}
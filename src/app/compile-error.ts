@@ -0,0 +1,69 @@
+// Kinds of failure the compiler reports, with the fields it may add (see functions/src/compile-errors.ts)
+export type CompileErrorCode =
+  | 'INVALID_INPUT'
+  | 'ACCESS_DENIED'
+  | 'RATE_LIMITED'
+  | 'MODULE_RESOLUTION_FAILED'
+  | 'COMPILER_CRASH'
+  | 'FORMATTING_FAILED'
+  | 'TIMEOUT';
+
+export interface CompileErrorBody {
+  code?: CompileErrorCode;
+  error?: string;
+  modules?: string[];
+  rawOutput?: string;
+  retryAfterSeconds?: number;
+}
+
+/**
+ * A compilation that failed, with a message written for the user. `code` is set when the
+ * compiler itself answered; without it the compiler couldn't be reached.
+ */
+export class CompileRequestError extends Error {
+  readonly code?: CompileErrorCode;
+  // Unformatted output, when only formatting failed
+  readonly rawOutput?: string;
+
+  constructor(message: string, readonly status: number, body: CompileErrorBody = {}) {
+    super(message);
+    this.name = 'CompileRequestError';
+    this.code = body.code;
+    this.rawOutput = body.rawOutput;
+  }
+}
+
+/**
+ * Build the error for a failed compilation from the HTTP status (0 when there was no response)
+ * and the error body the compiler sent
+ */
+export function toCompileRequestError(status: number, body: CompileErrorBody, retryAfterSeconds?: number): CompileRequestError {
+  return new CompileRequestError(describeCompileError(status, body, retryAfterSeconds), status, body);
+}
+
+function describeCompileError(status: number, body: CompileErrorBody, retryAfterSeconds = body.retryAfterSeconds): string {
+  switch (body.code) {
+    case 'INVALID_INPUT':
+      return status === 413
+        ? `${body.error}. Remove some files or code and try again.`
+        : `The compiler rejected the project: ${body.error}`;
+    case 'ACCESS_DENIED':
+      return status === 403 ? 'This site is not allowed to use the compiler server.' : `Access denied: ${body.error}`;
+    case 'RATE_LIMITED': {
+      const wait = retryAfterSeconds && retryAfterSeconds > 0 ? `in ${retryAfterSeconds}s` : 'in a moment';
+      return `Too many compilations from this address. Try again ${wait}.`;
+    }
+    case 'MODULE_RESOLUTION_FAILED':
+      return `${body.error}. Remove the import or copy the code you need into the project.`;
+    case 'COMPILER_CRASH':
+      return `The Angular compiler crashed: ${body.error}. Try simplifying the code around your last change.`;
+    case 'FORMATTING_FAILED':
+      return 'The code compiled, but the output could not be formatted.';
+    case 'TIMEOUT':
+      return 'The compilation took too long and was stopped. Try a smaller project.';
+  }
+  if (status === 0) {
+    return 'Could not reach the compiler server. Check your connection and try again.';
+  }
+  return body.error ?? `Compilation failed (HTTP ${status})`;
+}
@@ -0,0 +1,39 @@
+import { Component, computed, input } from '@angular/core';
+import { CompilePhaseEvent } from './ivy-cllient';
+
+// Server phases in the order they run, with the label shown while each one is in progress
+const PHASES: Array<{ phase: string; label: string }> = [
+  { phase: 'setup', label: 'Reading request' },
+  { phase: 'hashing', label: 'Hashing files' },
+  { phase: 'cacheCheck', label: 'Checking cache' },
+  { phase: 'hostCreation', label: 'Creating compiler host' },
+  { phase: 'programCreation', label: 'Creating program' },
+  { phase: 'analysis', label: 'Analyzing and type-checking' },
+  { phase: 'emission', label: 'Emitting' },
+  { phase: 'formatting', label: 'Formatting output' },
+];
+
+@Component({
+  selector: 'app-compile-progress',
+  standalone: true,
+  templateUrl: './compile-progress.html',
+  styleUrls: ['./compile-progress.scss'],
+})
+export class CompileProgress {
+  phases = input.required<CompilePhaseEvent[]>();
+
+  protected readonly completedPhases = computed(() =>
+    this.phases().map(event => ({ ...event, label: labelOf(event.phase) }))
+  );
+  // Position of the last finished phase; the in-browser compiler skips the hashing and cache phases
+  readonly #lastPhaseIndex = computed(() => {
+    const last = this.phases().at(-1);
+    return last ? PHASES.findIndex(({ phase }) => phase === last.phase) : -1;
+  });
+  protected readonly currentLabel = computed(() => PHASES[this.#lastPhaseIndex() + 1]?.label ?? 'Finishing');
+  protected readonly progress = computed(() => ((this.#lastPhaseIndex() + 1) / PHASES.length) * 100);
+}
+
+function labelOf(phase: string): string {
+  return PHASES.find(entry => entry.phase === phase)?.label ?? phase;
+}
@@ -0,0 +1,49 @@
+import { Component, model } from '@angular/core';
+import { CompilerOptionsRequest } from './ivy-cllient';
+
+type BooleanOption = {
+  [K in keyof CompilerOptionsRequest]-?: NonNullable<CompilerOptionsRequest[K]> extends boolean ? K : never;
+}[keyof CompilerOptionsRequest];
+
+// Server defaults, shown when an option isn't overridden
+const DEFAULT_OPTIONS: Required<CompilerOptionsRequest> = {
+  target: 'ES2022',
+  strict: true,
+  useDefineForClassFields: true,
+  compilationMode: 'full',
+  strictTemplates: true,
+  strictInjectionParameters: true,
+  typeCheckHostBindings: true,
+};
+
+@Component({
+  selector: 'app-compiler-options-panel',
+  standalone: true,
+  templateUrl: './compiler-options-panel.html',
+  styleUrls: ['./compiler-options-panel.scss'],
+})
+export class CompilerOptionsPanel {
+  options = model<CompilerOptionsRequest>({});
+
+  protected readonly targets: CompilerOptionsRequest['target'][] = ['ES2015', 'ES2017', 'ES2020', 'ES2022', 'ESNext'];
+  protected readonly typeScriptFlags: BooleanOption[] = ['strict', 'useDefineForClassFields'];
+  protected readonly angularFlags: BooleanOption[] = [
+    'strictTemplates',
+    'strictInjectionParameters',
+    'typeCheckHostBindings',
+  ];
+
+  protected valueOf<K extends keyof CompilerOptionsRequest>(name: K): Required<CompilerOptionsRequest>[K] {
+    return (this.options()[name] ?? DEFAULT_OPTIONS[name]) as Required<CompilerOptionsRequest>[K];
+  }
+
+  // Only keep overrides that differ from the defaults so equivalent requests share a cache entry
+  protected setOption<K extends keyof CompilerOptionsRequest>(name: K, value: Required<CompilerOptionsRequest>[K]) {
+    const { [name]: _, ...rest } = this.options();
+    this.options.set(value === DEFAULT_OPTIONS[name] ? rest : { ...rest, [name]: value });
+  }
+
+  protected reset() {
+    this.options.set({});
+  }
+}
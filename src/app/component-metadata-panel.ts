@@ -0,0 +1,39 @@
+import { Component, input, signal } from '@angular/core';
+import { ComponentMetadata, DeferBlockMetadata, HostBindingMetadata } from './ivy-cllient';
+
+/**
+ * Collapsible summary of what Angular's analysis found out about each component and directive:
+ * selector, inputs, outputs, host bindings, queries, imports, change detection and defer blocks
+ */
+@Component({
+  selector: 'app-component-metadata-panel',
+  standalone: true,
+  templateUrl: './component-metadata-panel.html',
+  styleUrls: ['./component-metadata-panel.scss'],
+})
+export class ComponentMetadataPanel {
+  metadata = input.required<ComponentMetadata[]>();
+  // Classes of the file open in the editor are marked
+  activeFileName = input<string | null>(null);
+
+  protected readonly expanded = signal(true);
+
+  // e.g. "title → heading" for an aliased input
+  protected bindingLabel({ name, bindingName }: { name: string; bindingName: string }): string {
+    return name === bindingName ? name : `${name} → ${bindingName}`;
+  }
+
+  // Written the way it would be in a template, e.g. `[class.active]="isActive()"`
+  protected hostBindingLabel({ kind, name, value }: HostBindingMetadata): string {
+    const target = kind === 'property' ? `[${name}]` : kind === 'listener' ? `(${name})` : name;
+    return `${target}="${value}"`;
+  }
+
+  protected triggerLabel({ triggers }: DeferBlockMetadata): string {
+    return triggers.length > 0 ? triggers.join(', ') : 'on idle (default)';
+  }
+
+  protected subBlocks({ placeholder, loading, error }: DeferBlockMetadata): string {
+    return [placeholder && '@placeholder', loading && '@loading', error && '@error'].filter(Boolean).join(' ');
+  }
+}
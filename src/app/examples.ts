@@ -0,0 +1,359 @@
+import { ENTRY_FILE_NAME, ProjectFile } from './project-file';
+
+export interface Example {
+  id: string;
+  title: string;
+  description: string;
+  files: ProjectFile[];
+}
+
+// Every example must compile without diagnostics; functions/tests/examples.test.ts checks this on each upgrade
+export const EXAMPLES: Example[] = [
+  {
+    id: 'basic',
+    title: 'Basic component',
+    description: 'A standalone component rendering a signal in its template.',
+    files: [
+      {
+        name: ENTRY_FILE_NAME,
+        content: `import { Component, signal } from '@angular/core';
+
+@Component({
+  selector: 'app-root',
+  template: '<h1>{{ title() }}</h1>',
+})
+export class App {
+  title = signal('Hello Angular');
+}`,
+      },
+    ],
+  },
+  {
+    id: 'control-flow',
+    title: 'Control flow',
+    description: '@if/@else, @for with track, $index and @empty, and @switch blocks.',
+    files: [
+      {
+        name: ENTRY_FILE_NAME,
+        content: `import { Component, signal } from '@angular/core';
+
+type Status = 'idle' | 'loading' | 'done';
+
+@Component({
+  selector: 'app-root',
+  template: \`
+    @if (user(); as user) {
+      <h1>Welcome back, {{ user.name }}</h1>
+    } @else {
+      <h1>Please sign in</h1>
+    }
+
+    <ul>
+      @for (todo of todos(); track todo.id; let i = $index, last = $last) {
+        <li [class.last]="last">{{ i + 1 }}. {{ todo.title }}</li>
+      } @empty {
+        <li>Nothing to do</li>
+      }
+    </ul>
+
+    @switch (status()) {
+      @case ('loading') { <p>Loading…</p> }
+      @case ('done') { <p>All done</p> }
+      @default { <p>Waiting</p> }
+    }
+  \`,
+})
+export class App {
+  user = signal<{ name: string } | null>({ name: 'Ada' });
+  todos = signal([
+    { id: 1, title: 'Write the compiler' },
+    { id: 2, title: 'Ship it' },
+  ]);
+  status = signal<Status>('idle');
+}`,
+      },
+    ],
+  },
+  {
+    id: 'defer',
+    title: 'Deferrable views',
+    description: '@defer blocks with viewport, interaction and timer triggers, prefetching and sub-blocks.',
+    files: [
+      {
+        name: ENTRY_FILE_NAME,
+        content: `import { Component } from '@angular/core';
+
+@Component({
+  selector: 'app-chart',
+  template: '<canvas></canvas>',
+})
+export class Chart {}
+
+@Component({
+  selector: 'app-root',
+  imports: [Chart],
+  template: \`
+    @defer (on viewport; prefetch on idle) {
+      <app-chart />
+    } @placeholder (minimum 500ms) {
+      <p>Chart goes here</p>
+    } @loading (after 100ms; minimum 1s) {
+      <p>Loading chart…</p>
+    } @error {
+      <p>Could not load the chart</p>
+    }
+
+    <button #trigger>Show details</button>
+    @defer (on interaction(trigger); on timer(5s)) {
+      <app-chart />
+    }
+  \`,
+})
+export class App {}`,
+      },
+    ],
+  },
+  {
+    id: 'let',
+    title: '@let declarations',
+    description: 'Template-local variables declared with @let and reused in bindings.',
+    files: [
+      {
+        name: ENTRY_FILE_NAME,
+        content: `import { Component, signal } from '@angular/core';
+
+@Component({
+  selector: 'app-root',
+  template: \`
+    @let items = cart();
+    @let total = items.length * price;
+
+    <p>{{ items.length }} items cost {{ total }}</p>
+    @if (total > 100) {
+      <p>Free shipping on {{ items.join(', ') }}</p>
+    }
+  \`,
+})
+export class App {
+  cart = signal(['book', 'pen', 'lamp']);
+  price = 40;
+}`,
+      },
+    ],
+  },
+  {
+    id: 'signal-io',
+    title: 'Signal inputs, outputs and model()',
+    description: 'input(), input.required(), output() and a model() used with two-way binding.',
+    files: [
+      {
+        name: ENTRY_FILE_NAME,
+        content: `import { Component, input, model, output, signal } from '@angular/core';
+
+@Component({
+  selector: 'app-counter',
+  template: \`
+    <span>{{ label() }}: {{ count() }}</span>
+    <button (click)="count.set(count() + step())">+</button>
+    <button (click)="reset.emit()">Reset</button>
+  \`,
+})
+export class Counter {
+  label = input.required<string>();
+  step = input(1);
+  count = model(0);
+  reset = output<void>();
+}
+
+@Component({
+  selector: 'app-root',
+  imports: [Counter],
+  template: \`
+    <app-counter label="Clicks" [step]="2" [(count)]="clicks" (reset)="clicks.set(0)" />
+    <p>Parent sees {{ clicks() }}</p>
+  \`,
+})
+export class App {
+  clicks = signal(0);
+}`,
+      },
+    ],
+  },
+  {
+    id: 'host-bindings',
+    title: 'Host bindings',
+    description: 'Host properties, classes, attributes and listeners declared in the host metadata.',
+    files: [
+      {
+        name: ENTRY_FILE_NAME,
+        content: `import { Component, Directive, signal } from '@angular/core';
+
+@Directive({
+  selector: '[appToggle]',
+  host: {
+    role: 'switch',
+    '[attr.aria-checked]': 'on()',
+    '[class.on]': 'on()',
+    '[style.cursor]': '"pointer"',
+    '(click)': 'on.set(!on())',
+    '(keydown.enter)': 'on.set(!on())',
+  },
+})
+export class Toggle {
+  on = signal(false);
+}
+
+@Component({
+  selector: 'app-root',
+  imports: [Toggle],
+  template: '<div appToggle tabindex="0">Dark mode</div>',
+})
+export class App {}`,
+      },
+    ],
+  },
+  {
+    id: 'content-projection',
+    title: 'Content projection',
+    description: 'Default and named ng-content slots with fallback content.',
+    files: [
+      {
+        name: ENTRY_FILE_NAME,
+        content: `import { Component } from '@angular/core';
+
+@Component({
+  selector: 'app-card',
+  template: \`
+    <header><ng-content select="[card-title]">Untitled</ng-content></header>
+    <section><ng-content /></section>
+    <footer><ng-content select="app-card-actions, .actions" /></footer>
+  \`,
+})
+export class Card {}
+
+@Component({
+  selector: 'app-root',
+  imports: [Card],
+  template: \`
+    <app-card>
+      <h2 card-title>Ivy</h2>
+      <p>Angular's compilation and rendering pipeline.</p>
+      <div class="actions"><button>Read more</button></div>
+    </app-card>
+  \`,
+})
+export class App {}`,
+      },
+    ],
+  },
+  {
+    id: 'pipes',
+    title: 'Pipes',
+    description: 'Built-in pipes with arguments, the async pipe and a custom pure pipe.',
+    files: [
+      {
+        name: ENTRY_FILE_NAME,
+        content: `import { AsyncPipe, CurrencyPipe, DatePipe, UpperCasePipe } from '@angular/common';
+import { Component, Pipe, PipeTransform } from '@angular/core';
+import { interval, map } from 'rxjs';
+
+@Pipe({ name: 'initials' })
+export class InitialsPipe implements PipeTransform {
+  transform(name: string): string {
+    return name.split(' ').map(part => part[0]).join('');
+  }
+}
+
+@Component({
+  selector: 'app-root',
+  imports: [AsyncPipe, CurrencyPipe, DatePipe, UpperCasePipe, InitialsPipe],
+  template: \`
+    <p>{{ name | uppercase }} ({{ name | initials }})</p>
+    <p>{{ price | currency: 'EUR' : 'symbol' : '1.2-2' }}</p>
+    <p>{{ today | date: 'longDate' }}</p>
+    <p>Seconds: {{ seconds$ | async }}</p>
+  \`,
+})
+export class App {
+  name = 'Grace Hopper';
+  price = 42.5;
+  today = new Date();
+  seconds$ = interval(1000).pipe(map(n => n + 1));
+}`,
+      },
+    ],
+  },
+  {
+    id: 'i18n',
+    title: 'Internationalization',
+    description: 'i18n attributes with meaning and IDs, translated attributes and ICU plural/select expressions.',
+    files: [
+      {
+        name: ENTRY_FILE_NAME,
+        content: `import { Component, signal } from '@angular/core';
+
+@Component({
+  selector: 'app-root',
+  template: \`
+    <h1 i18n="site header|Welcome message@@welcome">Hello {{ name }}!</h1>
+    <img src="logo.png" i18n-alt alt="Company logo" />
+    <p i18n>
+      {count(), plural, =0 {No new messages} =1 {One new message} other {{{ count() }} new messages}}
+    </p>
+    <p i18n>Signed in as {role, select, admin {an administrator} other {a user}}</p>
+  \`,
+})
+export class App {
+  name = 'Ada';
+  role = 'admin';
+  count = signal(3);
+}`,
+      },
+    ],
+  },
+  {
+    id: 'standalone-imports',
+    title: 'Standalone imports across files',
+    description: 'A component in its own file with an external template, imported by the root component along with forms.',
+    files: [
+      {
+        name: ENTRY_FILE_NAME,
+        content: `import { Component, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { Greeting } from './greeting';
+
+@Component({
+  selector: 'app-root',
+  imports: [FormsModule, Greeting],
+  template: \`
+    <input [(ngModel)]="name" placeholder="Your name" />
+    <app-greeting [name]="name" [excited]="excited()" />
+  \`,
+})
+export class App {
+  name = 'Angular';
+  excited = signal(true);
+}`,
+      },
+      {
+        name: 'greeting.ts',
+        content: `import { Component, computed, input } from '@angular/core';
+
+@Component({
+  selector: 'app-greeting',
+  templateUrl: './greeting.html',
+})
+export class Greeting {
+  name = input.required<string>();
+  excited = input(false);
+  message = computed(() => \`Hello \${this.name()}\${this.excited() ? '!' : '.'}\`);
+}`,
+      },
+      {
+        name: 'greeting.html',
+        content: `<p>{{ message() }}</p>
+`,
+      },
+    ],
+  },
+];
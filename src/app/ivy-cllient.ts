@@ -1,15 +1,191 @@
-import { HttpClient } from "@angular/common/http";
+import { HttpClient, HttpErrorResponse, HttpEventType } from "@angular/common/http";
 import { inject, Injectable } from "@angular/core";
-import { map, timeout, catchError } from "rxjs/operators";
-import { throwError } from "rxjs";
+import { map, mergeMap, timeout, catchError } from "rxjs/operators";
+import { defer, Observable, of, throwError, TimeoutError } from "rxjs";
+import { CompileErrorBody, CompileRequestError, toCompileRequestError } from "./compile-error";
+import { LOCAL_ANGULAR_VERSION, LocalCompiler } from "./local-compiler";
+
+export type DiagnosticCategoryName = 'error' | 'warning' | 'suggestion' | 'message';
+
+// 1-based line and column
+export interface DiagnosticPosition {
+  line: number;
+  column: number;
+}
+
+export interface DiagnosticMessageChain {
+  message: string;
+  code: number;
+  category: DiagnosticCategoryName;
+  next?: DiagnosticMessageChain[];
+}
+
+export interface CompileDiagnostic {
+  file: string | null;
+  start: DiagnosticPosition | null;
+  end: DiagnosticPosition | null;
+  category: DiagnosticCategoryName;
+  code: number;
+  messageChain: DiagnosticMessageChain;
+  source: 'typescript' | 'angular' | 'template';
+}
+
+export interface SourceMapping {
+  // Instruction name, e.g. "ɵɵelementStart"
+  instruction: string;
+  // Offsets of the instruction call in the output of the file
+  generated: { start: number; end: number };
+  // Project file and offsets of the template node or binding it was generated from
+  source: { file: string; start: number; end: number };
+}
+
+// Type-check block (TCB) of a component: the TypeScript Angular type-checks in place of its template
+export interface TypeCheckBlock {
+  file: string;
+  component: string;
+  // Type-check shim the block was generated into, e.g. "main.ngtypecheck.ts"
+  shimFile: string;
+  source: string;
+  diagnostics: TypeCheckBlockDiagnostic[];
+}
+
+export interface TypeCheckBlockDiagnostic {
+  code: number;
+  category: DiagnosticCategoryName;
+  message: string;
+  // Offsets in the block's `source`
+  start: number;
+  end: number;
+  // The same diagnostic as reported against the template, when Angular maps it there
+  templateDiagnostic: CompileDiagnostic | null;
+}
+
+// Explanation of an instruction name or ɵɵdefineComponent field in the output of a file
+export interface OutputAnnotation {
+  // Offsets in the output of the file
+  start: number;
+  end: number;
+  // What is explained, e.g. "ɵɵadvance" or "decls"
+  label: string;
+  explanation: string;
+}
+
+// What Angular's analysis found out about a component or directive class
+export interface ComponentMetadata {
+  file: string;
+  className: string;
+  kind: 'component' | 'directive';
+  selector: string | null;
+  standalone: boolean;
+  inputs: Array<{ name: string; bindingName: string; required: boolean; flavor: MemberFlavor }>;
+  outputs: Array<{ name: string; bindingName: string; flavor: MemberFlavor }>;
+  hostBindings: HostBindingMetadata[];
+  queries: Array<{ name: string; kind: 'viewChild' | 'viewChildren' | 'contentChild' | 'contentChildren'; predicate: string; flavor: MemberFlavor }>;
+  imports: string[];
+  deferredImports: string[];
+  // e.g. "OnPush"; null for directives
+  changeDetection: string | null;
+  deferBlocks: DeferBlockMetadata[];
+}
+
+// Declared with input(), output(), viewChild()... or with the @Input(), @Output(), @ViewChild()... decorators
+export type MemberFlavor = 'signal' | 'decorator';
+
+export interface HostBindingMetadata {
+  kind: 'attribute' | 'property' | 'listener';
+  name: string;
+  value: string;
+  declaredIn: 'host' | 'decorator';
+}
+
+export interface DeferBlockMetadata {
+  // Opening of the block, e.g. "@defer (on viewport) {"
+  block: string;
+  // Empty for the default trigger (on idle)
+  triggers: string[];
+  placeholder: boolean;
+  loading: boolean;
+  error: boolean;
+  // Components and directives used in the block's content
+  dependencies: string[];
+}
+
+// Compiler options a request may override; omitted options use the server defaults
+export interface CompilerOptionsRequest {
+  target?: 'ES2015' | 'ES2017' | 'ES2020' | 'ES2022' | 'ESNext';
+  strict?: boolean;
+  useDefineForClassFields?: boolean;
+  compilationMode?: 'full' | 'partial';
+  strictTemplates?: boolean;
+  strictInjectionParameters?: boolean;
+  typeCheckHostBindings?: boolean;
+}
+
+// How the emitted JavaScript is presented (see functions/src/output-options.ts)
+export interface OutputOptionsRequest {
+  // Keep the ɵsetClassMetadata/ɵsetClassDebugInfo blocks that are stripped by default
+  keepDevModeBlocks?: boolean;
+  // false shows the output exactly as emitted
+  format?: boolean;
+  // Production-style output minified with terser; only the compileAngular function can minify
+  minify?: boolean;
+  // Also return the type-check block Angular generates for each component
+  typeCheckBlocks?: boolean;
+  // Also return explanations of the Ivy instructions in the output
+  annotations?: boolean;
+  // Also return the selector, inputs, outputs, queries, imports and defer blocks of each component
+  componentMetadata?: boolean;
+}
+
+// Major versions the compileAngular function can compile against
+export const ANGULAR_VERSIONS = ['17', '18', '19', '20'];
+export const DEFAULT_ANGULAR_VERSION = '20';
 
 export interface CompiledResponse {
   compiledOutput: string;
   hasDiagnostics: boolean;
   compilationTime: number;
   fromCache?: boolean;
+  // Cache layer that served the result: this server instance's memory or a persistent store
+  cacheLayer?: 'memory' | 'file' | 'firestore';
+  // Exact @angular/core version the project was compiled against, e.g. "19.2.14"
+  angularVersion?: string;
+  // Compiled JavaScript per source file, keyed by project-relative path
+  outputFiles?: Record<string, string>;
+  // Instruction-to-source spans per output file (same keys as outputFiles)
+  sourceMappings?: Record<string, SourceMapping[]>;
+  // Structured diagnostics; `compiledOutput` holds their text rendering
+  diagnostics?: CompileDiagnostic[];
+  // Diagnostic text grouped by project-relative path
+  fileDiagnostics?: Record<string, string>;
+  // Bytes of each minified output file (same keys as outputFiles); only sent for minified output
+  outputSizes?: Record<string, number>;
+  // Requested with `typeCheckBlocks` in the output options
+  typeCheckBlocks?: TypeCheckBlock[];
+  // Requested with `annotations` in the output options (same keys as outputFiles)
+  annotations?: Record<string, OutputAnnotation[]>;
+  // Requested with `componentMetadata` in the output options
+  componentMetadata?: ComponentMetadata[];
+}
+
+// Sent by the server as each compiler phase (setup, hashing, ..., formatting) finishes
+export interface CompilePhaseEvent {
+  phase: string;
+  // Milliseconds spent in this phase, and since the request was received
+  duration: number;
+  elapsed: number;
 }
 
+// Where a compilation ran: the compileAngular function, or the Web Worker in this tab
+export type CompilerLocation = 'remote' | 'local';
+
+// `auto` compiles remotely and falls back to the browser when the function is unavailable
+export type CompilerMode = 'auto' | CompilerLocation;
+
+export type CompileStreamEvent =
+  | { type: 'phase'; phase: CompilePhaseEvent }
+  | { type: 'result'; result: CompiledResponse; compiledBy: CompilerLocation };
+
 @Injectable({
   providedIn: 'root',
 })
@@ -18,10 +194,22 @@ export class IvyClient {
   // #URL = 'http://127.0.0.1:5001/mktrannblog/us-central1/compileAngular';
   // #URL = 'https://solid-waddle-g6vv7g4gxr9h9r46-5001.app.github.dev/mktrannblog/us-central1/compileAngular';
   #http = inject(HttpClient);
+  #localCompiler = inject(LocalCompiler);
+  // Lets the server build on this tab's previous compilation instead of starting cold
+  #sessionId = crypto.randomUUID();
 
-  getCompiledOutput(code: string) {
+  getCompiledOutput(
+    files: Record<string, string>,
+    options: CompilerOptionsRequest = {},
+    angularVersion = DEFAULT_ANGULAR_VERSION,
+    output: OutputOptionsRequest = {}
+  ) {
     return this.#http.post<CompiledResponse>(this.#URL, {
-      code,
+      files,
+      options,
+      output,
+      angularVersion,
+      sessionId: this.#sessionId,
     }, {
       headers: {
         'Content-Type': 'application/json',
@@ -34,8 +222,133 @@ export class IvyClient {
       timeout(30000), // 30 second timeout
       catchError((error: any) => {
         console.error('Compilation error:', error);
-        return throwError(() => error);
+        return throwError(() => toRequestError(error));
+      })
+    );
+  }
+
+  compile(
+    files: Record<string, string>,
+    options: CompilerOptionsRequest = {},
+    mode: CompilerMode = 'auto',
+    angularVersion = DEFAULT_ANGULAR_VERSION,
+    output: OutputOptionsRequest = {}
+  ) {
+    // The browser only has the compiler bundled with this app, and no terser
+    const compilesLocally = angularVersion === LOCAL_ANGULAR_VERSION && !output.minify;
+    if (mode === 'local') {
+      return compilesLocally
+        ? this.#localCompiler.compile(files, options, output)
+        : throwError(() => new Error(output.minify
+          ? 'The browser compiler cannot minify; compile on the server instead'
+          : `The browser compiler only supports Angular ${LOCAL_ANGULAR_VERSION}; compile on the server instead`));
+    }
+    const remote = this.streamCompiledOutput(files, options, angularVersion, output);
+    return mode === 'remote' ? remote : remote.pipe(
+      catchError((error: unknown) => isRejectedRequest(error) || !compilesLocally
+        ? throwError(() => error)
+        : this.#localCompiler.compile(files, options, output))
+    );
+  }
+
+  // Same request as getCompiledOutput, but the server reports each finished phase as a Server-Sent Event
+  streamCompiledOutput(
+    files: Record<string, string>,
+    options: CompilerOptionsRequest = {},
+    angularVersion = DEFAULT_ANGULAR_VERSION,
+    output: OutputOptionsRequest = {}
+  ): Observable<CompileStreamEvent> {
+    return defer(() => {
+      // Length of the response text already parsed into events
+      let parsedLength = 0;
+
+      return this.#http.post(this.#URL, {
+        files,
+        options,
+        output,
+        angularVersion,
+        sessionId: this.#sessionId,
+      }, {
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+        },
+        observe: 'events',
+        reportProgress: true,
+        responseType: 'text',
+      }).pipe(
+        mergeMap(event => {
+          const text = event.type === HttpEventType.DownloadProgress ? event.partialText
+            : event.type === HttpEventType.Response ? event.body
+            : undefined;
+          // Only parse complete events, which end with a blank line
+          const end = (text ?? '').lastIndexOf('\n\n') + 2;
+          if (!text || end <= parsedLength) {
+            return [];
+          }
+          const blocks = text.slice(parsedLength, end).split('\n\n').filter(block => block.trim());
+          parsedLength = end;
+          return blocks.map(parseServerSentEvent);
+        }),
+        mergeMap(({ event, data }): Observable<CompileStreamEvent> => {
+          switch (event) {
+            case 'phase':
+              return of({ type: 'phase', phase: data as CompilePhaseEvent });
+            case 'result':
+              return of({ type: 'result', result: data as CompiledResponse, compiledBy: 'remote' });
+            default:
+              // The response itself succeeded, the compilation didn't
+              return throwError(() => toCompileRequestError(200, data as CompileErrorBody));
+          }
+        }),
+      );
+    }).pipe(
+      timeout(30000), // 30 second timeout between events
+      catchError((error: any) => {
+        console.error('Compilation error:', error);
+        return throwError(() => toRequestError(error));
       })
     );
   }
-}
\ No newline at end of file
+}
+
+// The function answered with an error of its own, which the browser compiler would run into too
+function isRejectedRequest(error: unknown): boolean {
+  return error instanceof CompileRequestError && error.code !== undefined && error.code !== 'RATE_LIMITED';
+}
+
+function toRequestError(error: unknown): unknown {
+  if (error instanceof TimeoutError) {
+    return new CompileRequestError('The compiler server did not respond in time. Try again in a moment.', 0);
+  }
+  if (!(error instanceof HttpErrorResponse)) {
+    return error;
+  }
+  const retryAfterSeconds = Number(error.headers.get('Retry-After')) || undefined;
+  return toCompileRequestError(error.status, parseErrorBody(error.error), retryAfterSeconds);
+}
+
+// JSON error bodies arrive as text from the streaming request
+function parseErrorBody(body: unknown): CompileErrorBody {
+  if (typeof body === 'string') {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return {};
+    }
+  }
+  return typeof body === 'object' && body !== null ? body : {};
+}
+
+function parseServerSentEvent(block: string): { event: string; data: unknown } {
+  let event = 'message';
+  const data: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice('event:'.length).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice('data:'.length).trim());
+    }
+  }
+  return { event, data: JSON.parse(data.join('\n')) };
+}
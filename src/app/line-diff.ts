@@ -0,0 +1,59 @@
+export interface LineDiff {
+  // 1-based line numbers only present in the previous text
+  removed: number[];
+  // 1-based line numbers only present in the current text
+  added: number[];
+}
+
+/**
+ * Line-level diff based on the longest common subsequence of lines. Common leading and
+ * trailing lines are skipped first, so typical edits only run the LCS on a small window.
+ */
+export function diffLines(previous: string, current: string): LineDiff {
+  const before = previous.split('\n');
+  const after = current.split('\n');
+
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const rows = endBefore - start;
+  const cols = endAfter - start;
+  const width = cols + 1;
+
+  // lcs[i * width + j] = LCS length of before[start + i..] and after[start + j..]
+  const lcs = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i * width + j] = before[start + i] === after[start + j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const diff: LineDiff = { removed: [], added: [] };
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && before[start + i] === after[start + j]) {
+      i++;
+      j++;
+    } else if (j < cols && (i === rows || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      diff.added.push(start + j + 1);
+      j++;
+    } else {
+      diff.removed.push(start + i + 1);
+      i++;
+    }
+  }
+
+  return diff;
+}
@@ -0,0 +1,71 @@
+import { Injectable, VERSION } from '@angular/core';
+import { Observable } from 'rxjs';
+import type { CompileWorkerMessage, CompileWorkerRequest } from '../compiler-worker/messages';
+import { toCompileRequestError } from './compile-error';
+import { CompileStreamEvent, CompiledResponse, CompilerOptionsRequest, OutputOptionsRequest } from './ivy-cllient';
+
+// Built into public/ by scripts/build-compiler-worker.mjs
+const WORKER_URL = 'compiler-worker/compiler.worker.js';
+
+// The worker bundles the compiler this app was built with, so it can only compile for that major version
+export const LOCAL_ANGULAR_VERSION = VERSION.major;
+
+/**
+ * Runs the compile pipeline in a Web Worker, against Angular typings bundled with the app
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class LocalCompiler {
+  #worker: Worker | null = null;
+  #nextId = 0;
+
+  compile(
+    files: Record<string, string>,
+    options: CompilerOptionsRequest = {},
+    output: OutputOptionsRequest = {}
+  ): Observable<CompileStreamEvent> {
+    return new Observable<CompileStreamEvent>(subscriber => {
+      const worker = this.#getWorker();
+      const id = this.#nextId++;
+
+      const onMessage = ({ data }: MessageEvent<CompileWorkerMessage<CompiledResponse>>) => {
+        if (data.id !== id) {
+          return;
+        }
+        switch (data.type) {
+          case 'phase':
+            subscriber.next({ type: 'phase', phase: data.phase });
+            break;
+          case 'result':
+            subscriber.next({ type: 'result', result: data.result, compiledBy: 'local' });
+            subscriber.complete();
+            break;
+          case 'error':
+            subscriber.error(toCompileRequestError(200, data.error));
+            break;
+        }
+      };
+      // Only fires when the worker script itself fails, e.g. it wasn't built or can't be fetched
+      const onError = (event: ErrorEvent) => {
+        this.#worker = null;
+        subscriber.error(new Error(event.message || 'The in-browser compiler failed to load'));
+      };
+
+      worker.addEventListener('message', onMessage);
+      worker.addEventListener('error', onError);
+      worker.postMessage({ id, files, options, output } satisfies CompileWorkerRequest);
+
+      return () => {
+        worker.removeEventListener('message', onMessage);
+        worker.removeEventListener('error', onError);
+      };
+    });
+  }
+
+  #getWorker(): Worker {
+    // Resolved against the base href so the app works from a sub-path (e.g. GitHub Pages)
+    this.#worker ??= new Worker(new URL(WORKER_URL, document.baseURI), { type: 'module' });
+    return this.#worker;
+  }
+}
@@ -0,0 +1,23 @@
+import { Component, computed, input } from '@angular/core';
+import { CodeMirrorDirective } from './codemirror.directive';
+import { diffLines } from './line-diff';
+
+@Component({
+  selector: 'app-output-diff',
+  standalone: true,
+  imports: [CodeMirrorDirective],
+  templateUrl: './output-diff.html',
+  styleUrls: ['./output-diff.scss'],
+})
+export class OutputDiff {
+  previous = input.required<string>();
+  current = input.required<string>();
+
+  protected readonly diff = computed(() => diffLines(this.previous(), this.current()));
+  protected readonly removedLines = computed(() => toLineClasses(this.diff().removed, 'cm-diff-removed'));
+  protected readonly addedLines = computed(() => toLineClasses(this.diff().added, 'cm-diff-added'));
+}
+
+function toLineClasses(lines: number[], className: string): Record<number, string> {
+  return Object.fromEntries(lines.map(line => [line, className]));
+}
@@ -0,0 +1,44 @@
+import { Component, computed, input, model } from '@angular/core';
+import { OutputOptionsRequest } from './ivy-cllient';
+
+// Tabs of the output pane
+export type OutputView = 'code' | 'typeCheckBlocks';
+
+/**
+ * Switches between the cleaned-up output (the default), the output as emitted, and a
+ * production-style minified build, and opts into the type-check blocks tab, explanations of
+ * the instructions and the component metadata panel
+ */
+@Component({
+  selector: 'app-output-view-toggles',
+  standalone: true,
+  templateUrl: './output-view-toggles.html',
+  styleUrls: ['./output-view-toggles.scss'],
+})
+export class OutputViewToggles {
+  options = model<OutputOptionsRequest>({});
+  // Bytes of the minified output shown, when the server reported it
+  size = input<number | null>(null);
+  view = model<OutputView>('code');
+  // Whether the current output came with type-check blocks to show
+  hasTypeCheckBlocks = input(false);
+
+  protected readonly minify = computed(() => this.options().minify ?? false);
+  protected readonly keepDevModeBlocks = computed(() => this.options().keepDevModeBlocks ?? false);
+  protected readonly format = computed(() => this.options().format ?? true);
+  protected readonly typeCheckBlocks = computed(() => this.options().typeCheckBlocks ?? false);
+  protected readonly annotations = computed(() => this.options().annotations ?? false);
+  protected readonly componentMetadata = computed(() => this.options().componentMetadata ?? false);
+  protected readonly formattedSize = computed(() => {
+    const size = this.size();
+    if (size === null) return null;
+    return size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KiB`;
+  });
+
+  // Only keep options that differ from the defaults so equivalent requests share a cache entry
+  protected setOption(name: keyof OutputOptionsRequest, value: boolean) {
+    const { [name]: _, ...rest } = this.options();
+    const isDefault = name === 'format' ? value : !value;
+    this.options.set(isDefault ? rest : { ...rest, [name]: value });
+  }
+}
@@ -0,0 +1,71 @@
+import type { CompilerOptionsRequest, OutputOptionsRequest } from './ivy-cllient';
+import { ENTRY_FILE_NAME, ProjectFile } from './project-file';
+
+// Everything needed to reproduce an output: the project and the options it was compiled with
+export interface PlaygroundState {
+  files: ProjectFile[];
+  options: CompilerOptionsRequest;
+  // Major version compiled against; links from before versions were selectable use the default
+  angularVersion?: string;
+  // Output view toggles; missing from links created before they existed
+  output?: OutputOptionsRequest;
+}
+
+// Versioned so the payload format can change without breaking links already shared
+const HASH_PREFIX = '#v1=';
+
+export async function encodePermalink(state: PlaygroundState): Promise<string> {
+  const json = JSON.stringify({
+    files: state.files,
+    options: state.options,
+    angularVersion: state.angularVersion,
+    output: state.output,
+  });
+  const compressed = await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  return HASH_PREFIX + toBase64Url(compressed);
+}
+
+// Returns null for hashes that aren't permalinks or can't be decoded
+export async function decodePermalink(hash: string): Promise<PlaygroundState | null> {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  try {
+    const compressed = fromBase64Url(hash.slice(HASH_PREFIX.length));
+    const json = new TextDecoder().decode(await transform(compressed, new DecompressionStream('deflate-raw')));
+    const state: unknown = JSON.parse(json);
+    return isPlaygroundState(state) ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+// Links can be edited by hand, so only accept a project the editor can open
+function isPlaygroundState(value: unknown): value is PlaygroundState {
+  if (typeof value !== 'object' || value === null) return false;
+  const { files, options, angularVersion, output } = value as Record<string, unknown>;
+  return (
+    Array.isArray(files) &&
+    files.every(file => typeof file?.name === 'string' && typeof file?.content === 'string') &&
+    files.some(file => file.name === ENTRY_FILE_NAME) &&
+    typeof options === 'object' &&
+    options !== null &&
+    !Array.isArray(options) &&
+    (angularVersion === undefined || typeof angularVersion === 'string') &&
+    (output === undefined || (typeof output === 'object' && output !== null && !Array.isArray(output)))
+  );
+}
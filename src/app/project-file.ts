@@ -0,0 +1,11 @@
+export interface ProjectFile {
+  name: string;
+  content: string;
+}
+
+// File every project starts from; it cannot be renamed or closed in the editor
+export const ENTRY_FILE_NAME = 'main.ts';
+
+export function toFileMap(files: ProjectFile[]): Record<string, string> {
+  return Object.fromEntries(files.map(file => [file.name, file.content]));
+}
@@ -0,0 +1,50 @@
+import { Component, computed, input, signal } from '@angular/core';
+import { CodeMirrorDirective } from './codemirror.directive';
+import { TypeCheckBlock, TypeCheckBlockDiagnostic } from './ivy-cllient';
+
+/**
+ * Shows the type-check block Angular generated for a component, with the TypeScript errors found
+ * in it next to where Angular reports them in the template
+ */
+@Component({
+  selector: 'app-type-check-block-viewer',
+  standalone: true,
+  imports: [CodeMirrorDirective],
+  templateUrl: './type-check-block-viewer.html',
+  styleUrls: ['./type-check-block-viewer.scss'],
+})
+export class TypeCheckBlockViewer {
+  blocks = input.required<TypeCheckBlock[]>();
+  // File open in the editor; its first component is shown until another one is picked
+  activeFileName = input<string | null>(null);
+
+  readonly #selectedKey = signal<string | null>(null);
+  protected readonly selectedBlock = computed(() => {
+    const blocks = this.blocks();
+    return blocks.find(block => keyOf(block) === this.#selectedKey())
+      ?? blocks.find(block => block.file === this.activeFileName())
+      ?? blocks[0]
+      ?? null;
+  });
+  protected readonly highlights = computed(() =>
+    this.selectedBlock()?.diagnostics.map(d => ({ from: d.start, to: Math.max(d.end, d.start + 1) })) ?? []
+  );
+  protected readonly keyOf = keyOf;
+
+  protected selectBlock(key: string) {
+    this.#selectedKey.set(key);
+  }
+
+  // e.g. "app.html:3:12", or why there is no template location
+  protected templateLocation({ templateDiagnostic }: TypeCheckBlockDiagnostic): string {
+    if (!templateDiagnostic?.file || !templateDiagnostic.start) {
+      return 'not reported against the template';
+    }
+    const { line, column } = templateDiagnostic.start;
+    return `${templateDiagnostic.file}:${line}:${column}`;
+  }
+}
+
+function keyOf(block: TypeCheckBlock): string {
+  return `${block.file}#${block.component}`;
+}
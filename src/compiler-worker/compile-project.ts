@@ -0,0 +1,144 @@
+import { absoluteFrom, CompilerHost, NgtscProgram, setFileSystem } from '@angular/compiler-cli';
+import * as ts from 'typescript';
+import * as prettier from 'prettier/standalone';
+import * as babelPlugin from 'prettier/plugins/babel';
+import * as estreePlugin from 'prettier/plugins/estree';
+import { CompileResponse, PRETTIER_OPTIONS } from '../../functions/src/compile-output';
+import { collectEmittedFiles, compileProgram, resolveProgramOptions } from '../../functions/src/compile-program';
+import type { RequestedCompilerOptions } from '../../functions/src/compiler-options';
+import type { OutputOptions } from '../../functions/src/output-options';
+import type { CompilePhaseEvent } from './messages';
+import { VIRTUAL_ROOT, VirtualFileSystem } from './virtual-file-system';
+
+// Typings never change, so their parsed SourceFiles are shared by every compilation in this worker
+const typingsSourceFileCache = new Map<string, ts.SourceFile>();
+
+/**
+ * Compile a project like the compileAngular function does, against the typings preloaded into
+ * the worker. Stylesheets are used as-is: SCSS needs the remote compiler.
+ */
+export async function compileProject(
+  projectFiles: Record<string, string>,
+  requestedOptions: RequestedCompilerOptions,
+  // Minified output needs terser, which only the compileAngular function has
+  output: OutputOptions,
+  typings: ReadonlyMap<string, string>,
+  onPhase?: (event: CompilePhaseEvent) => void
+): Promise<CompileResponse> {
+  const startTime = Date.now();
+  const timings: Record<string, number> = {};
+  let lastPhaseEnd = startTime;
+
+  const completePhase = (phase: string) => {
+    const now = Date.now();
+    timings[phase] = now - lastPhaseEnd;
+    lastPhaseEnd = now;
+    onPhase?.({ phase, duration: timings[phase], elapsed: now - startTime });
+  };
+
+  const files = new Map(typings);
+  for (const [fileName, content] of Object.entries(projectFiles)) {
+    files.set(VIRTUAL_ROOT + fileName, content);
+  }
+  const fileSystem = new VirtualFileSystem(files);
+  setFileSystem(fileSystem);
+  const rootNames = Object.keys(projectFiles)
+    .filter(fileName => fileName.endsWith('.ts') && !fileName.endsWith('.d.ts'))
+    .map(fileName => VIRTUAL_ROOT + fileName);
+  completePhase('setup');
+
+  const compiledFiles: Record<string, string> = {};
+  const compiledSourceMaps: Record<string, string> = {};
+  const options = resolveProgramOptions(requestedOptions, output);
+  const host = createBrowserCompilerHost(
+    fileSystem,
+    options,
+    collectEmittedFiles(compiledFiles, compiledSourceMaps, fileName => fileName.slice(VIRTUAL_ROOT.length))
+  );
+  completePhase('hostCreation');
+
+  const ngProgram = new NgtscProgram(rootNames, options, host);
+  completePhase('programCreation');
+
+  const result = await compileProgram(ngProgram, {
+    rootNames,
+    root: VIRTUAL_ROOT,
+    projectFiles,
+    compiledFiles,
+    compiledSourceMaps,
+    output,
+    completePhase,
+    format: code => prettier.format(code, { ...PRETTIER_OPTIONS, parser: 'babel', plugins: [babelPlugin, estreePlugin] }),
+  });
+
+  return {
+    ...result,
+    compilationTime: Date.now() - startTime,
+    fromCache: false,
+    timings,
+  };
+}
+
+/**
+ * Compiler host over the virtual file system; there is no ts.sys in a worker to start from
+ */
+function createBrowserCompilerHost(
+  fileSystem: VirtualFileSystem,
+  options: ts.CompilerOptions,
+  writeFile: (fileName: string, content: string, sourceFiles?: readonly ts.SourceFile[]) => void
+): CompilerHost {
+  const readFile = (fileName: string) => (fileSystem.fileExists(fileName) ? fileSystem.readFile(absoluteFrom(fileName)) : undefined);
+
+  return {
+    getSourceFile: (fileName, languageVersionOrOptions) => {
+      const content = readFile(fileName);
+      if (content === undefined) {
+        return undefined;
+      }
+      if (!fileName.startsWith('/node_modules/')) {
+        return ts.createSourceFile(fileName, content, languageVersionOrOptions, true);
+      }
+      const languageVersion = typeof languageVersionOrOptions === 'object'
+        ? languageVersionOrOptions.languageVersion
+        : languageVersionOrOptions;
+      const cacheKey = `${languageVersion}:${fileName}`;
+      let sourceFile = typingsSourceFileCache.get(cacheKey);
+      if (!sourceFile) {
+        sourceFile = ts.createSourceFile(fileName, content, languageVersionOrOptions, true);
+        typingsSourceFileCache.set(cacheKey, sourceFile);
+      }
+      return sourceFile;
+    },
+    getDefaultLibFileName: compilerOptions => `${fileSystem.getDefaultLibLocation()}/${ts.getDefaultLibFileName(compilerOptions)}`,
+    getDefaultLibLocation: () => fileSystem.getDefaultLibLocation(),
+    writeFile: (fileName, content, _bom, _onError, sourceFiles) => writeFile(fileName, content, sourceFiles),
+    getCurrentDirectory: () => VIRTUAL_ROOT,
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName => fileSystem.fileExists(fileName),
+    readFile,
+    directoryExists: directoryName => fileSystem.directoryExists(directoryName),
+    getDirectories: directoryName => fileSystem.getDirectories(directoryName),
+    realpath: fileName => fileName,
+
+    // templateUrl/styleUrls resolve against the component file, like on the server
+    resourceNameToFileName: (resourceName, containingFile) => {
+      const fileName = fileSystem.resolve(fileSystem.dirname(containingFile), resourceName);
+      return fileSystem.fileExists(fileName) ? fileName : null;
+    },
+    readResource: fileName => {
+      const content = readFile(fileName);
+      if (content === undefined) {
+        throw new Error(`Resource not found: ${fileName}`);
+      }
+      return content;
+    },
+    transformResource: async (_data, context) => {
+      if (context.resourceFile?.endsWith('.scss')) {
+        throw new Error(`${context.resourceFile.slice(VIRTUAL_ROOT.length)}: SCSS stylesheets need the remote compiler`);
+      }
+      return null;
+    },
+  };
+}
@@ -0,0 +1,56 @@
+/// <reference lib="webworker" />
+
+import { VERSION } from '@angular/compiler-cli';
+import { CompileError, toCompileError } from '../../functions/src/compile-errors';
+import type { CompileResponse } from '../../functions/src/compile-output';
+import { parseCompilerOptions } from '../../functions/src/compiler-options';
+import { parseOutputOptions } from '../../functions/src/output-options';
+import { compileProject } from './compile-project';
+import { CompileWorkerMessage, CompileWorkerRequest } from './messages';
+
+// Typings written next to this bundle by scripts/build-compiler-worker.mjs, fetched on first use
+let typings: Promise<Map<string, string>> | undefined;
+
+// The compiler file system is global, so compilations run one at a time
+let queue = Promise.resolve();
+
+addEventListener('message', ({ data }: MessageEvent<CompileWorkerRequest>) => {
+  queue = queue.then(() => compile(data));
+});
+
+async function compile({ id, files, options: rawOptions, output: rawOutput }: CompileWorkerRequest): Promise<void> {
+  const post = (message: CompileWorkerMessage<CompileResponse>) => postMessage(message);
+
+  try {
+    const { options, error } = parseCompilerOptions(rawOptions);
+    if (!options) {
+      throw new CompileError('INVALID_INPUT', error!);
+    }
+    const { options: output, error: outputError } = parseOutputOptions(rawOutput);
+    if (!output) {
+      throw new CompileError('INVALID_INPUT', outputError!);
+    }
+    const result = await compileProject(files, options, output, await loadTypings(), phase =>
+      post({ id, type: 'phase', phase })
+    );
+    post({ id, type: 'result', result: { ...result, angularVersion: VERSION.full } });
+  } catch (err) {
+    post({ id, type: 'error', error: toCompileError(err).toResponseBody() });
+  }
+}
+
+function loadTypings(): Promise<Map<string, string>> {
+  typings ??= fetch(new URL('typings.json', location.href))
+    .then(async response => {
+      if (!response.ok) {
+        throw new Error(`Failed to load compiler typings (${response.status})`);
+      }
+      return new Map(Object.entries((await response.json()) as Record<string, string>));
+    })
+    .catch(err => {
+      // Let the next compilation retry
+      typings = undefined;
+      throw err;
+    });
+  return typings;
+}
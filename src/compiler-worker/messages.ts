@@ -0,0 +1,25 @@
+// Only types: the app imports these too, and can't load the compiler modules behind CompileResponse
+import type { CompileErrorBody } from '../../functions/src/compile-errors';
+
+// Same progress events the compileAngular function streams
+export interface CompilePhaseEvent {
+  phase: string;
+  duration: number;
+  elapsed: number;
+}
+
+// Posted by the app; `id` ties the replies below to their request
+export interface CompileWorkerRequest {
+  id: number;
+  files: Record<string, string>;
+  // Validated by the worker like the compileAngular function validates its `options`
+  options: unknown;
+  // Validated like the function's `output`
+  output: unknown;
+}
+
+// `Result` is the CompileResponse of functions/src/compile-output.ts, which the app declares on its own
+export type CompileWorkerMessage<Result> =
+  | { id: number; type: 'phase'; phase: CompilePhaseEvent }
+  | { id: number; type: 'result'; result: Result }
+  | { id: number; type: 'error'; error: CompileErrorBody };
@@ -0,0 +1,14 @@
+// Stand-ins for the Node builtins (fs, os, url, module) that @angular/compiler-cli imports at
+// load time. The worker installs its own FileSystem and compiler host, so none of them is used
+// for compiling; they only have to survive module initialization.
+
+export const EOL = '\n';
+
+// Every compiler-cli chunk creates a CommonJS `require` on load but only calls it from Node-only paths
+export function createRequire(): (id: string) => never {
+  return id => {
+    throw new Error(`Cannot load "${id}" in the browser compiler`);
+  };
+}
+
+export default {};
@@ -0,0 +1,23 @@
+// The `process` global seen by bundled code (esbuild `inject`). The compiler only uses it for its
+// performance recorder and for environment checks, which must keep detecting a browser.
+export const process = {
+  browser: true,
+  env: {} as Record<string, string | undefined>,
+  platform: 'browser',
+  cwd: () => '/',
+  hrtime: (previous?: [number, number]): [number, number] => {
+    const now = performance.now();
+    let seconds = Math.floor(now / 1000);
+    let nanoseconds = Math.floor((now % 1000) * 1e6);
+    if (previous) {
+      seconds -= previous[0];
+      nanoseconds -= previous[1];
+      if (nanoseconds < 0) {
+        seconds--;
+        nanoseconds += 1e9;
+      }
+    }
+    return [seconds, nanoseconds];
+  },
+  memoryUsage: () => ({ heapUsed: 0, heapTotal: 0, rss: 0, external: 0, arrayBuffers: 0 }),
+};
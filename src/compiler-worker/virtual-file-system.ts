@@ -0,0 +1,100 @@
+import { AbsoluteFsPath, NodeJSFileSystem } from '@angular/compiler-cli';
+
+// Path and stat types of the compiler's FileSystem interface, which compiler-cli doesn't export
+type PathSegment = ReturnType<NodeJSFileSystem['basename']>;
+type FileStats = ReturnType<NodeJSFileSystem['stat']>;
+
+// Root of the in-memory volume; project files live directly below it, typings in /node_modules
+export const VIRTUAL_ROOT = '/';
+
+/**
+ * The compiler's view of the in-memory volume. Path handling comes from NodeJSFileSystem (backed by
+ * a browser build of `path`), reads are served from the files of the current compilation.
+ */
+export class VirtualFileSystem extends NodeJSFileSystem {
+  readonly #files: ReadonlyMap<string, string>;
+  readonly #directories = new Set<string>([VIRTUAL_ROOT]);
+
+  constructor(files: ReadonlyMap<string, string>) {
+    super();
+    this.#files = files;
+    for (const fileName of files.keys()) {
+      for (let dir = this.dirname(fileName); !this.#directories.has(dir); dir = this.dirname(dir)) {
+        this.#directories.add(dir);
+      }
+    }
+  }
+
+  override pwd(): AbsoluteFsPath {
+    return VIRTUAL_ROOT as AbsoluteFsPath;
+  }
+
+  override chdir(): void {
+    throw new Error('The browser compiler cannot change directory');
+  }
+
+  override isCaseSensitive(): boolean {
+    return true;
+  }
+
+  override exists(path: AbsoluteFsPath): boolean {
+    return this.#files.has(path) || this.#directories.has(path);
+  }
+
+  fileExists(path: string): boolean {
+    return this.#files.has(path);
+  }
+
+  directoryExists(path: string): boolean {
+    return this.#directories.has(this.normalize(path).replace(/(.)\/$/, '$1'));
+  }
+
+  override readFile(path: AbsoluteFsPath): string {
+    const content = this.#files.get(path);
+    if (content === undefined) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return content;
+  }
+
+  override readFileBuffer(path: AbsoluteFsPath): Uint8Array {
+    return new TextEncoder().encode(this.readFile(path));
+  }
+
+  override readdir(path: AbsoluteFsPath): PathSegment[] {
+    const prefix = path.endsWith('/') ? path : `${path}/`;
+    const entries = new Set<string>();
+    for (const entry of [...this.#files.keys(), ...this.#directories]) {
+      if (entry.startsWith(prefix) && entry.length > prefix.length) {
+        entries.add(entry.slice(prefix.length).split('/')[0]);
+      }
+    }
+    return [...entries] as PathSegment[];
+  }
+
+  // Directories directly below `path`, as TypeScript's getDirectories expects
+  getDirectories(path: string): string[] {
+    return this.readdir(path as AbsoluteFsPath).filter(entry => this.#directories.has(this.join(path, entry)));
+  }
+
+  override lstat(path: AbsoluteFsPath): FileStats {
+    return this.stat(path);
+  }
+
+  override stat(path: AbsoluteFsPath): FileStats {
+    const isFile = this.#files.has(path);
+    const isDirectory = this.#directories.has(path);
+    if (!isFile && !isDirectory) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return { isFile: () => isFile, isDirectory: () => isDirectory, isSymbolicLink: () => false };
+  }
+
+  override realpath(path: AbsoluteFsPath): AbsoluteFsPath {
+    return path;
+  }
+
+  override getDefaultLibLocation(): AbsoluteFsPath {
+    return '/node_modules/typescript/lib' as AbsoluteFsPath;
+  }
+}